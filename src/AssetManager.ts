@@ -0,0 +1,186 @@
+// AssetManager.ts
+import { Material, Mesh, Object3D, Texture, TextureLoader, type Light } from "three";
+import { GLTFLoader, type GLTF } from "three/examples/jsm/loaders/GLTFLoader.js";
+
+export type AssetProgress = {
+    loaded: number;     // settled requests in the current batch (loaded or fallen back)
+    total: number;      // requests in the current batch
+    ratio: number;      // 0..1, includes byte progress of running requests where the loader reports it
+    url?: string;       // request that triggered the update
+};
+
+export type AssetFailure = {
+    key: string;
+    url: string;
+    error: unknown;
+    fellBack: boolean;
+};
+
+export type AssetOptions<T> = {
+    /** Built when the request fails; returning null (or no fallback) leaves the asset missing. */
+    fallback?: () => T | null;
+};
+
+type ProgressListener = (progress: AssetProgress) => void;
+
+/** Frees the geometries, materials (with their textures) and light shadow maps under `root`. */
+export function disposeObject(root: Object3D): void {
+    root.traverse((child) => {
+        const mesh = child as Mesh;
+        if (mesh.isMesh) {
+            mesh.geometry.dispose();
+            const materials: Material[] = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+            materials.forEach(material => {
+                Object.values(material).forEach(value => { if ((value as Texture)?.isTexture) (value as Texture).dispose(); });
+                material.dispose();
+            });
+        }
+        if ((child as Light).isLight) (child as Light).dispose();
+    });
+}
+
+function disposeAsset(asset: unknown): void {
+    if ((asset as Texture).isTexture) (asset as Texture).dispose();
+    else if ((asset as GLTF).scene) disposeObject((asset as GLTF).scene);
+}
+
+/**
+ * Single entry point for every file the playground loads, so one overlay can
+ * show aggregate progress and a missing file degrades to its fallback instead
+ * of stalling whatever waits on it. Requests never reject: they resolve with
+ * the asset, its fallback or null. Requesting a key twice shares the request.
+ */
+export class AssetManager {
+    private _assets = new Map<string, unknown>();
+    private _requests = new Map<string, Promise<unknown>>();
+    private _failures: AssetFailure[] = [];
+    private _listeners = new Set<ProgressListener>();
+
+    // current batch (reset when a request starts while idle)
+    private _fractions = new Map<string, number>();
+    private _settled = 0;
+    private _total = 0;
+    private _generation = 0;   // bumped by dispose; older requests free what they load
+
+    private _textureLoader = new TextureLoader();
+    private _gltfLoader = new GLTFLoader();
+
+    public loadTexture(key: string, url: string, options: AssetOptions<Texture> = {}): Promise<Texture | null> {
+        return this._load(key, url, (onProgress) => this._textureLoader.loadAsync(url, onProgress), options);
+    }
+
+    public loadGLTF(key: string, url: string, options: AssetOptions<GLTF> = {}): Promise<GLTF | null> {
+        return this._load(key, url, (onProgress) => this._gltfLoader.loadAsync(url, onProgress), options);
+    }
+
+    /** A glTF already in memory (a dropped file); .gltf with external buffers cannot resolve them. */
+    public parseGLTF(key: string, data: ArrayBuffer | string, options: AssetOptions<GLTF> = {}): Promise<GLTF | null> {
+        return this._load(key, key, () => this._gltfLoader.parseAsync(data, ""), options);
+    }
+
+    /** Frees one asset and forgets its request, so the key can be loaded again. */
+    public release(key: string): void {
+        const asset = this._assets.get(key);
+        if (asset !== undefined) disposeAsset(asset);
+        this._assets.delete(key);
+        this._requests.delete(key);
+    }
+
+    /** Loaded (or fallback) asset; undefined while pending or when both failed. */
+    public get<T>(key: string): T | undefined {
+        return this._assets.get(key) as T | undefined;
+    }
+
+    public get failures(): readonly AssetFailure[] {
+        return this._failures;
+    }
+
+    public get progress(): AssetProgress {
+        let sum = 0;
+        this._fractions.forEach(fraction => { sum += fraction; });
+        return {
+            loaded: this._settled,
+            total: this._total,
+            ratio: this._total ? sum / this._total : 1,
+        };
+    }
+
+    public get isLoading(): boolean {
+        return this._settled < this._total;
+    }
+
+    /** Called on every start, byte progress and settle; returns the unsubscribe. */
+    public onProgress(listener: ProgressListener): () => void {
+        this._listeners.add(listener);
+        return () => this._listeners.delete(listener);
+    }
+
+    /** Resolves once every request has settled, including ones started while waiting. */
+    public async whenIdle(): Promise<void> {
+        while (this.isLoading) await Promise.allSettled([...this._requests.values()]);
+    }
+
+    /** Frees every loaded texture and model and forgets all requests, so the next load starts fresh. */
+    public dispose(): void {
+        this._assets.forEach(asset => disposeAsset(asset));
+        this._assets.clear();
+        this._requests.clear();
+        this._fractions.clear();
+        this._failures = [];
+        this._settled = 0;
+        this._total = 0;
+        this._generation++;
+    }
+
+    private _load<T>(
+        key: string,
+        url: string,
+        load: (onProgress: (event: ProgressEvent) => void) => Promise<T>,
+        { fallback }: AssetOptions<T>
+    ): Promise<T | null> {
+        const existing = this._requests.get(key);
+        if (existing) return existing as Promise<T | null>;
+
+        if (!this.isLoading) {
+            this._fractions.clear();
+            this._settled = 0;
+            this._total = 0;
+        }
+        this._total++;
+        this._fractions.set(key, 0);
+        this._emit(url);
+
+        const generation = this._generation;
+        const request = load((event) => {
+            if (!event.lengthComputable || !event.total || generation !== this._generation) return;
+            this._fractions.set(key, Math.min(event.loaded / event.total, 1));
+            this._emit(url);
+        }).catch((error: unknown) => {
+            const asset = fallback?.() ?? null;
+            this._failures.push({ key, url, error, fellBack: asset !== null });
+            console.warn(`Asset "${key}" (${url}) failed to load${asset !== null ? ", using fallback" : ""}:`, error);
+            return asset;
+        }).then((asset) => {
+            if (generation !== this._generation) {
+                if (asset !== null) disposeAsset(asset);
+                return null;
+            }
+            if (asset !== null) this._assets.set(key, asset);
+            this._fractions.set(key, 1);
+            this._settled++;
+            this._emit(url);
+            return asset;
+        });
+
+        this._requests.set(key, request);
+        return request;
+    }
+
+    private _emit(url: string): void {
+        const progress = { ...this.progress, url };
+        this._listeners.forEach(listener => listener(progress));
+    }
+}
+
+/** Shared by the scene, the models and the post-processing manager. */
+export const assetManager = new AssetManager();
@@ -0,0 +1,189 @@
+// CameraBookmarks.ts
+import { MathUtils, Vector3, type Camera, type OrthographicCamera, type PerspectiveCamera, type Vector3Tuple } from "three";
+import type { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import type { FolderApi, ListBladeApi } from "tweakpane";
+import { EASINGS } from "./Timeline";
+
+const STORAGE_KEY = "playground.cameraBookmarks";
+const HOME = "Home";
+
+export type CameraBookmark = {
+    name: string;
+    position: Vector3Tuple;
+    target: Vector3Tuple;   // OrbitControls target
+    fov?: number;           // perspective cameras
+    zoom?: number;          // orthographic cameras
+};
+
+/** What bookmarks read and move. */
+export interface BookmarkTarget {
+    readonly camera: Camera | null;
+    readonly controls: OrbitControls | null;
+}
+
+type Tween = {
+    from: CameraBookmark;
+    to: CameraBookmark;
+    start: number | null;   // clock (ms), taken on the first update
+    duration: number;       // s
+};
+
+function loadStoredBookmarks(): Record<string, CameraBookmark> {
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") as Record<string, CameraBookmark>;
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Named camera poses (position, orbit target, fov or zoom), saved in
+ * localStorage, with eased transitions between them. "Home" is the pose at
+ * startup and is not stored. Tweens run on the app clock like the timeline;
+ * grabbing the controls cancels one.
+ */
+export class CameraBookmarks {
+    public readonly state = {
+        selected: HOME,
+        name: "Bookmark 1",
+        duration: 1.5,      // s
+    };
+
+    private _target: BookmarkTarget;
+    private _home: CameraBookmark | null;
+    private _stored: Record<string, CameraBookmark> = loadStoredBookmarks();
+    private _tween: Tween | null = null;
+    private _list: ListBladeApi<string> | null = null;
+
+    constructor(target: BookmarkTarget) {
+        this._target = target;
+        this._home = this.capture(HOME);
+        target.controls?.addEventListener("start", this._onControlsStart);
+    }
+
+    public get bookmarks(): Record<string, CameraBookmark> {
+        return this._home ? { [HOME]: this._home, ...this._stored } : { ...this._stored };
+    }
+
+    public get tweening(): boolean {
+        return this._tween !== null;
+    }
+
+    /** The current pose under `name`; null without a camera and controls. */
+    public capture(name: string): CameraBookmark | null {
+        const { camera, controls } = this._target;
+        if (!camera || !controls) return null;
+        const cam = camera as PerspectiveCamera & OrthographicCamera;
+        return {
+            name,
+            position: camera.position.toArray(),
+            target: controls.target.toArray(),
+            fov: cam.isPerspectiveCamera ? cam.fov : undefined,
+            zoom: cam.isOrthographicCamera ? cam.zoom : undefined,
+        };
+    }
+
+    public save(name = this.state.name): void {
+        if (name === HOME) return;
+        const bookmark = this.capture(name);
+        if (!bookmark) return;
+        this._stored[name] = bookmark;
+        this._store();
+        this.state.selected = name;
+        this._updateList();
+    }
+
+    public remove(name = this.state.selected): void {
+        if (!(name in this._stored)) return;
+        delete this._stored[name];
+        this._store();
+        this.state.selected = HOME;
+        this._updateList();
+    }
+
+    /** Tweens to a bookmark; a duration of 0 jumps. */
+    public goTo(name = this.state.selected, duration = this.state.duration): void {
+        const to = this.bookmarks[name];
+        const from = this.capture("");
+        if (!to || !from) return;
+        if (duration <= 0) {
+            this._tween = null;
+            this._apply(to, to, 1);
+            return;
+        }
+        this._tween = { from, to, start: null, duration };
+    }
+
+    public cancel(): void {
+        this._tween = null;
+    }
+
+    /** Once per frame with the app clock (ms), before the controls update. */
+    public update(clock: number): void {
+        const tween = this._tween;
+        if (!tween) return;
+
+        tween.start ??= clock;
+        const u = Math.min((clock - tween.start) / 1000 / tween.duration, 1);
+        this._apply(tween.from, tween.to, EASINGS.easeInOut(u));
+        if (u >= 1) this._tween = null;
+    }
+
+    public setupDebugPanel(folder: FolderApi) {
+        this._list = folder.addBlade({
+            view: "list",
+            label: "Bookmark",
+            options: [],
+            value: this.state.selected,
+        }) as ListBladeApi<string>;
+        this._list.on("change", (ev) => { this.state.selected = ev.value; });
+        this._updateList();
+
+        folder.addBinding(this.state, "duration", { label: "Transition (s)", min: 0, max: 5, step: 0.1 });
+        folder.addButton({ title: "Go To" })
+            .on("click", () => this.goTo());
+        folder.addBinding(this.state, "name", { label: "Name" });
+        folder.addButton({ title: "Save Current View" })
+            .on("click", () => this.save());
+        folder.addButton({ title: "Delete" })
+            .on("click", () => this.remove());
+    }
+
+    public dispose(): void {
+        this._target.controls?.removeEventListener("start", this._onControlsStart);
+        this._tween = null;
+        this._list = null;
+    }
+
+    /**
+     * Position and orbit target interpolate in a straight line; fov / zoom
+     * only when both poses have them (a bookmark from the other projection
+     * keeps the current one).
+     */
+    private _apply(from: CameraBookmark, to: CameraBookmark, t: number): void {
+        const { camera, controls } = this._target;
+        if (!camera || !controls) return;
+        const cam = camera as PerspectiveCamera & OrthographicCamera;
+
+        camera.position.lerpVectors(_from.fromArray(from.position), _to.fromArray(to.position), t);
+        controls.target.lerpVectors(_from.fromArray(from.target), _to.fromArray(to.target), t);
+        if (cam.isPerspectiveCamera && from.fov !== undefined && to.fov !== undefined) cam.fov = MathUtils.lerp(from.fov, to.fov, t);
+        if (cam.isOrthographicCamera && from.zoom !== undefined && to.zoom !== undefined) cam.zoom = MathUtils.lerp(from.zoom, to.zoom, t);
+        cam.updateProjectionMatrix();
+    }
+
+    private _store() {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this._stored));
+    }
+
+    private _updateList() {
+        if (!this._list) return;
+        this._list.options = Object.keys(this.bookmarks).map(name => ({ text: name, value: name }));
+        this._list.value = this.state.selected;
+    }
+
+    private _onControlsStart = () => this.cancel();
+}
+
+const _from = new Vector3();
+const _to = new Vector3();
@@ -0,0 +1,299 @@
+// Capture.ts
+import { Vector2, type Camera, type OrthographicCamera, type PerspectiveCamera, type WebGLRenderer } from "three";
+import type { ButtonApi, TabPageApi } from "tweakpane";
+import { downloadBlob } from "./postprocessing/FileUtils";
+import type PostProcessingManager from "./postprocessing/PostProcessingManager";
+import { createZip, type ZipEntry } from "./Zip";
+
+/** What the capture needs from the app to render frames on its own schedule. */
+export interface CaptureTarget {
+    readonly renderer: WebGLRenderer;
+    readonly camera: Camera | null;
+    readonly postprocessing?: PostProcessingManager;
+    /** Clock (ms) of the last frame shown. */
+    readonly time: number;
+    /** Advances animation and controls to `time`. */
+    update(time: number): void;
+    /** Renders the current state at `time` without advancing anything but the post chain clock. */
+    draw(time: number): void;
+    /** Stops or restarts the render loop; the clock carries on from the last captured frame. */
+    setLooping(looping: boolean): void;
+    /** Back to the window size and pixel ratio. */
+    restoreSize(): void;
+}
+
+export type ImageFormat = "png" | "jpeg";
+
+// rendered around every tile and cropped, so blurs (bloom, SSAO, DoF) see across the seams
+const TILE_PADDING = 64;
+// 2D canvas limit in most browsers
+const MAX_OUTPUT_SIZE = 16384;
+
+const WEBM_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+
+function toBlob(canvas: HTMLCanvasElement, format: ImageFormat, quality?: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Canvas encoding failed")), `image/${format}`, quality);
+    });
+}
+
+const clampSize = (size: number) => Math.min(Math.max(Math.round(size), 1), MAX_OUTPUT_SIZE);
+
+/**
+ * Stills at any resolution (tiled through camera view offsets), fixed-timestep
+ * PNG sequences zipped in the browser, and real-time WebM recording of the canvas.
+ * Only one of them runs at a time.
+ */
+export class Capture {
+    public readonly settings = {
+        width: 3840,
+        height: 2160,
+        format: "png" as ImageFormat,
+        jpegQuality: 0.92,
+        tileSize: 1024,
+
+        sequenceFps: 30,
+        sequenceFrames: 90,
+        sequenceScale: 1,      // × the canvas drawing buffer size
+
+        videoFps: 60,
+        videoBitrate: 16,      // Mbit/s
+    };
+    public readonly status = { text: "Idle" };
+
+    private _target: CaptureTarget;
+    private _busy = false;
+    private _cancelled = false;
+    private _recorder: MediaRecorder | null = null;
+    private _stream: MediaStream | null = null;
+    private _sequenceButton: ButtonApi | null = null;
+    private _recordButton: ButtonApi | null = null;
+
+    constructor(target: CaptureTarget) {
+        this._target = target;
+    }
+
+    public get busy(): boolean {
+        return this._busy || this._recorder !== null;
+    }
+
+    /** Renders the current frame at settings.width × height and downloads it. */
+    public async screenshot(): Promise<void> {
+        if (this.busy) return;
+        this._busy = true;
+        const { format, jpegQuality } = this.settings;
+        const width = clampSize(this.settings.width);
+        const height = clampSize(this.settings.height);
+
+        try {
+            this._setStatus(`Rendering ${width}×${height}…`);
+            const canvas = this._renderFrame(width, height, this._target.time);
+            this._setStatus("Encoding…");
+            const blob = await toBlob(canvas, format, jpegQuality);
+            downloadBlob(`capture-${width}x${height}.${format === "jpeg" ? "jpg" : "png"}`, blob);
+        } catch (error) {
+            console.error("Screenshot failed:", error);
+        } finally {
+            this._busy = false;
+            this._setStatus("Idle");
+        }
+    }
+
+    /**
+     * Renders settings.sequenceFrames frames 1 / sequenceFps apart, however long
+     * each one takes, and downloads them as a zip of PNGs. The loop pauses meanwhile.
+     */
+    public async renderSequence(): Promise<void> {
+        if (this.busy) return;
+        this._busy = true;
+        this._cancelled = false;
+        if (this._sequenceButton) this._sequenceButton.title = "Cancel";
+
+        const { sequenceFps: fps, sequenceFrames: frames, sequenceScale: scale } = this.settings;
+        const screen = this._target.renderer.getDrawingBufferSize(new Vector2());
+        const width = clampSize(screen.x * scale);
+        const height = clampSize(screen.y * scale);
+
+        const entries: ZipEntry[] = [];
+        this._target.setLooping(false);
+        try {
+            const start = this._target.time;
+            for (let i = 0; i < frames && !this._cancelled; i++) {
+                const time = start + i * 1000 / fps;
+                this._target.update(time);
+                const canvas = this._renderFrame(width, height, time);
+                const blob = await toBlob(canvas, "png");
+                entries.push({ name: `frame_${String(i).padStart(5, "0")}.png`, data: new Uint8Array(await blob.arrayBuffer()) });
+                this._setStatus(`Frame ${i + 1}/${frames}`);
+            }
+            if (!this._cancelled && entries.length) {
+                this._setStatus("Zipping…");
+                downloadBlob(`sequence-${width}x${height}-${fps}fps.zip`, createZip(entries));
+            }
+        } catch (error) {
+            console.error("Sequence capture failed:", error);
+        } finally {
+            this._target.setLooping(true);
+            this._busy = false;
+            if (this._sequenceButton) this._sequenceButton.title = "Render Sequence";
+            this._setStatus("Idle");
+        }
+    }
+
+    public cancel(): void {
+        this._cancelled = true;
+    }
+
+    /** Starts recording the canvas as WebM, or stops and downloads the recording. */
+    public toggleRecording(): void {
+        if (this._recorder) {
+            this._recorder.stop();
+            return;
+        }
+        if (this._busy) return;
+
+        const mimeType = WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+        if (!mimeType) {
+            console.warn("WebM recording is not supported in this browser");
+            return;
+        }
+
+        const stream = this._stream = this._target.renderer.domElement.captureStream(this.settings.videoFps);
+        const recorder = this._recorder = new MediaRecorder(stream, {
+            mimeType,
+            videoBitsPerSecond: this.settings.videoBitrate * 1e6,
+        });
+        const chunks: Blob[] = [];
+        recorder.ondataavailable = (ev) => { if (ev.data.size) chunks.push(ev.data); };
+        recorder.onstop = () => {
+            this._stopStream();
+            downloadBlob("recording.webm", new Blob(chunks, { type: "video/webm" }));
+            this._setStatus("Idle");
+        };
+        // timesliced, so a long recording is not one huge buffer at the end
+        recorder.start(1000);
+
+        if (this._recordButton) this._recordButton.title = "Stop Recording";
+        this._setStatus("Recording…");
+    }
+
+    public setupDebugPanel(page: TabPageApi) {
+        page.addBinding(this.status, "text", { label: "Status", readonly: true });
+
+        // 🖼️ Still
+        const stillFolder = page.addFolder({ title: "🖼️ Screenshot" });
+        stillFolder.addBinding(this.settings, "width", { label: "Width", min: 16, max: MAX_OUTPUT_SIZE, step: 1 });
+        stillFolder.addBinding(this.settings, "height", { label: "Height", min: 16, max: MAX_OUTPUT_SIZE, step: 1 });
+        stillFolder.addBinding(this.settings, "format", { label: "Format", options: { PNG: "png", JPEG: "jpeg" } });
+        stillFolder.addBinding(this.settings, "jpegQuality", { label: "JPEG Quality", min: 0.5, max: 1, step: 0.01 });
+        stillFolder.addBinding(this.settings, "tileSize", { label: "Tile Size", options: { "512": 512, "1024": 1024, "2048": 2048 } });
+        stillFolder.addButton({ title: "Capture Still" })
+            .on("click", () => this.screenshot());
+
+        // 🎞️ PNG sequence
+        const sequenceFolder = page.addFolder({ title: "🎞️ PNG Sequence", expanded: false });
+        sequenceFolder.addBinding(this.settings, "sequenceFps", { label: "FPS", min: 1, max: 120, step: 1 });
+        sequenceFolder.addBinding(this.settings, "sequenceFrames", { label: "Frames", min: 1, max: 3600, step: 1 });
+        sequenceFolder.addBinding(this.settings, "sequenceScale", { label: "Scale", min: 0.25, max: 4, step: 0.25 });
+        this._sequenceButton = sequenceFolder.addButton({ title: "Render Sequence" });
+        this._sequenceButton.on("click", () => this._busy ? this.cancel() : this.renderSequence());
+
+        // 🎥 WebM
+        const videoFolder = page.addFolder({ title: "🎥 WebM", expanded: false });
+        videoFolder.addBinding(this.settings, "videoFps", { label: "FPS", min: 15, max: 120, step: 1 });
+        videoFolder.addBinding(this.settings, "videoBitrate", { label: "Bitrate (Mbit/s)", min: 1, max: 80, step: 1 });
+        this._recordButton = videoFolder.addButton({ title: "Start Recording" });
+        this._recordButton.on("click", () => this.toggleRecording());
+    }
+
+    public dispose(): void {
+        this.cancel();
+        if (this._recorder) {
+            // dropped, not downloaded
+            this._recorder.onstop = null;
+            this._recorder.stop();
+        }
+        this._stopStream();
+        this._sequenceButton = null;
+        this._recordButton = null;
+    }
+
+    /**
+     * Renders the frame at `time` into a width × height canvas. Larger than a
+     * tile, it is rendered tile by tile through camera view offsets, each with
+     * a padding that is cropped away; the post chain gets every tile's region
+     * so screen-space effects are laid out over the whole frame.
+     */
+    private _renderFrame(width: number, height: number, time: number): HTMLCanvasElement {
+        const { renderer, postprocessing } = this._target;
+        const camera = this._target.camera as PerspectiveCamera | OrthographicCamera | null;
+        if (!camera) throw new Error("No camera to capture from");
+
+        const output = document.createElement("canvas");
+        output.width = width;
+        output.height = height;
+        const context = output.getContext("2d")!;
+
+        const screen = renderer.getDrawingBufferSize(new Vector2());
+        const pixelScale = Math.max(width / screen.x, height / screen.y);
+
+        const tile = Math.min(this.settings.tileSize, renderer.capabilities.maxTextureSize - 2 * TILE_PADDING);
+        const columns = Math.ceil(width / tile);
+        const rows = Math.ceil(height / tile);
+        const padding = columns * rows > 1 ? TILE_PADDING : 0;
+        // every tile renders at one size, so the chain is resized once
+        const renderWidth = Math.min(tile + 2 * padding, width);
+        const renderHeight = Math.min(tile + 2 * padding, height);
+
+        const perspective = (camera as PerspectiveCamera).isPerspectiveCamera ? camera as PerspectiveCamera : null;
+        const aspect = perspective?.aspect;
+        if (perspective) perspective.aspect = width / height;
+
+        renderer.setPixelRatio(1);
+        if (postprocessing) postprocessing.resize(renderWidth, renderHeight);
+        else renderer.setSize(renderWidth, renderHeight, false);
+
+        try {
+            for (let row = 0; row < rows; row++) {
+                for (let column = 0; column < columns; column++) {
+                    // tile in output pixels (top-left origin) and the padded region rendered around it
+                    const x = column * tile;
+                    const y = row * tile;
+                    const tileWidth = Math.min(tile, width - x);
+                    const tileHeight = Math.min(tile, height - y);
+                    const regionX = Math.min(Math.max(x - padding, 0), width - renderWidth);
+                    const regionY = Math.min(Math.max(y - padding, 0), height - renderHeight);
+
+                    camera.setViewOffset(width, height, regionX, regionY, renderWidth, renderHeight);
+                    postprocessing?.setCaptureRegion({
+                        x: regionX / width,
+                        y: 1 - (regionY + renderHeight) / height,
+                        width: renderWidth / width,
+                        height: renderHeight / height,
+                        pixelScale,
+                    });
+                    this._target.draw(time);
+                    // same task as the render, so the drawing buffer has not been cleared yet
+                    context.drawImage(renderer.domElement, x - regionX, y - regionY, tileWidth, tileHeight, x, y, tileWidth, tileHeight);
+                }
+            }
+        } finally {
+            if (perspective) perspective.aspect = aspect!;
+            camera.clearViewOffset();
+            postprocessing?.setCaptureRegion(null);
+            this._target.restoreSize();
+        }
+        return output;
+    }
+
+    private _stopStream() {
+        this._stream?.getTracks().forEach(track => track.stop());
+        this._stream = null;
+        this._recorder = null;
+        if (this._recordButton) this._recordButton.title = "Start Recording";
+    }
+
+    private _setStatus(text: string) {
+        this.status.text = text;
+    }
+}
@@ -0,0 +1,35 @@
+// LeakReport.ts
+import type { WebGLRenderer } from "three";
+
+export type RendererSnapshot = {
+    geometries: number;
+    textures: number;     // includes render target attachments
+    programs: number;
+};
+
+export function snapshotRenderer(renderer: WebGLRenderer): RendererSnapshot {
+    return {
+        geometries: renderer.info.memory.geometries,
+        textures: renderer.info.memory.textures,
+        programs: renderer.info.programs?.length ?? 0,
+    };
+}
+
+/**
+ * Dev-only check that a teardown released everything it allocated: logs the
+ * GPU resources still alive compared with `before`. Returns whether anything leaked.
+ */
+export function reportLeaks(label: string, before: RendererSnapshot, after: RendererSnapshot): boolean {
+    const leaks = (Object.keys(before) as (keyof RendererSnapshot)[])
+        .filter(key => after[key] > before[key])
+        .map(key => ({ resource: key, before: before[key], after: after[key] }));
+
+    if (leaks.length === 0) {
+        console.info(`[${label}] disposed cleanly`, after);
+        return false;
+    }
+
+    console.warn(`[${label}] GPU resources still alive after dispose:`);
+    console.table(leaks);
+    return true;
+}
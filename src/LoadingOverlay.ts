@@ -0,0 +1,69 @@
+// LoadingOverlay.ts
+import type { AssetManager, AssetProgress } from "./AssetManager";
+
+/**
+ * Full-screen progress bar fed by an AssetManager. Shows while any request is
+ * running and fades out once the batch has settled.
+ */
+export class LoadingOverlay {
+    public readonly element: HTMLDivElement;
+
+    private _bar: HTMLDivElement;
+    private _label: HTMLDivElement;
+    private _unsubscribe: () => void;
+
+    constructor(assets: AssetManager, parent: HTMLElement = document.body) {
+        this.element = document.createElement("div");
+        Object.assign(this.element.style, {
+            position: "fixed",
+            inset: "0",
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            justifyContent: "center",
+            gap: "10px",
+            background: "#060606",
+            color: "hsla(0, 0%, 100%, 0.5)",
+            font: "11px/1.4 monospace",
+            zIndex: "1000",
+            transition: "opacity 0.4s",
+            pointerEvents: "none",
+        });
+
+        const track = document.createElement("div");
+        Object.assign(track.style, {
+            width: "240px",
+            height: "2px",
+            background: "hsla(0, 0%, 100%, 0.1)",
+        });
+
+        this._bar = document.createElement("div");
+        Object.assign(this._bar.style, {
+            width: "0%",
+            height: "100%",
+            background: "hsla(0, 0%, 100%, 0.6)",
+            transition: "width 0.2s",
+        });
+
+        this._label = document.createElement("div");
+
+        track.appendChild(this._bar);
+        this.element.append(track, this._label);
+        parent.appendChild(this.element);
+
+        this._update(assets.progress);
+        this._unsubscribe = assets.onProgress(progress => this._update(progress));
+    }
+
+    public dispose(): void {
+        this._unsubscribe();
+        this.element.remove();
+    }
+
+    private _update({ loaded, total, ratio }: AssetProgress): void {
+        const done = loaded >= total;
+        this._bar.style.width = `${Math.round(ratio * 100)}%`;
+        this._label.textContent = done ? "" : `Loading ${loaded} / ${total}`;
+        this.element.style.opacity = done ? "0" : "1";
+    }
+}
@@ -1,53 +1,25 @@
-import { Color, Object3D } from "three";
-import { GLTFLoader } from "three/examples/jsm/Addons.js";
-import type { GLTF } from "three/examples/jsm/loaders/GLTFLoader.js";
+import type { Object3D } from "three";
+import type { SceneLoader } from "../SceneLoader";
 
+const MODEL_URL = "/models/LateNight.glb";
+
+/** The startup model; the SceneLoader loads it, applies its userData tags and adds it to the scene. */
 export default class LateNight {
-    _modelLoader: GLTFLoader = new GLTFLoader();
-    _model: Object3D | undefined;
-    private _readyPromise!: Promise<Object3D>;
+    private _loader: SceneLoader;
+    private _readyPromise!: Promise<Object3D | null>;
 
-    constructor() {
+    constructor(loader: SceneLoader) {
+        this._loader = loader;
         this.init();
     }
 
     private init(): void {
-        this._readyPromise = new Promise<Object3D>((resolve, reject) => {
-            this._modelLoader.load(
-                '/models/LateNight.glb',
-                (gltf: GLTF) => {
-                    this._model = gltf.scene as Object3D;
-                    this._model.traverse((child) => {
-                        if ((child as any).isMesh) {
-                            child.castShadow = true;
-                            child.receiveShadow = true;
-
-                            if ((child as any).userData.isGlass) {
-                                child.castShadow = false;
-                                child.receiveShadow = false;
-                            }
-
-                            if ((child as any).userData.isEmmisive) {
-                                const color = (child as any).material.emissive;
-
-                                ((child as any).material as any).emissive = new Color(color.r * 2, color.g * 2, color.b * 2);
-                                ((child as any).material as any).emissiveIntensity = 0.1;
-                            }
-
-                        }
-                    });
-                    resolve(this._model);
-                },
-                undefined,
-                (error) => {
-                    console.error('An error happened while loading the model:', error);
-                    reject(error);
-                }
-            );
-        });
+        // keeps the startup view instead of framing the model
+        this._readyPromise = this._loader.load(MODEL_URL, false).then(() => (this._isLoaded() ? this._loader.model : null));
     }
 
-    public whenReady(): Promise<Object3D> {
+    /** Resolves with null when the model is unavailable or another one replaced it. */
+    public whenReady(): Promise<Object3D | null> {
         return this._readyPromise;
     }
 
@@ -59,7 +31,16 @@ export default class LateNight {
 
     }
 
+    public dispose(): void {
+        // leave a model picked or dropped since then alone
+        if (this._isLoaded()) this._loader.unload();
+    }
+
     public setDebug(debug: any): void {
         if (!debug) return;
     }
-}
\ No newline at end of file
+
+    private _isLoaded(): boolean {
+        return this._loader.state.model === MODEL_URL && this._loader.model !== null;
+    }
+}
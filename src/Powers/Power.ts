@@ -1,4 +1,6 @@
-import { BoxGeometry, Color, DirectionalLight, Group, Mesh, MeshStandardMaterial, OrthographicCamera, PlaneGeometry, PointLight, ShadowMaterial } from "three";
+import { BoxGeometry, Color, DirectionalLight, Group, Light, Mesh, MeshStandardMaterial, OrthographicCamera, PlaneGeometry, PointLight, ShadowMaterial } from "three";
+import { disposeObject } from "../AssetManager";
+import type { SceneLoader } from "../SceneLoader";
 import LateNight from "./LateNight";
 
 export default class Power {
@@ -6,11 +8,12 @@ export default class Power {
     private _lightsGroup: Group = new Group;
     private _meshesGroup: Group = new Group;
 
+    private _sceneLoader: SceneLoader;
     private _lateNight: LateNight | undefined = undefined;
 
 
-    constructor() {
-
+    constructor(sceneLoader: SceneLoader) {
+        this._sceneLoader = sceneLoader;
         this._init();
     }
 
@@ -23,6 +26,7 @@ export default class Power {
 
     _setupLight(): void {
         const point = new PointLight(new Color(0xCFD3FF), 1);
+        point.name = "Top Light";
         point.position.set(0, 2, 0);
         // this._lightsGroup.add(point);
 
@@ -35,8 +39,9 @@ export default class Power {
             { x: -2 + -offset, y: 1.7, z: -1.5 - offset },
         ];
 
-        lanternsPositions.forEach((pos) => {
+        lanternsPositions.forEach((pos, i) => {
             const lantern = new PointLight(new Color(0xFFC639), .7);
+            lantern.name = `Lantern ${i + 1}`;
             lantern.position.set(pos.x, pos.y, pos.z);
             lantern.scale.set(0.5, 2, 0.5);
 
@@ -44,6 +49,7 @@ export default class Power {
         });
 
         const backLight = new DirectionalLight(new Color(0x9CA4FF), 2);
+        backLight.name = "Back Light";
         backLight.position.set(0, 7, -10); // elevate & angle a bit
         backLight.castShadow = true;
 
@@ -64,6 +70,7 @@ export default class Power {
         backLight.target.position.set(0, 0, 0);
 
         const frontLight = new DirectionalLight(new Color(0xFFA143), .5);
+        frontLight.name = "Front Light";
         frontLight.position.set(0, 5, 5); // elevate & angle a bit
         frontLight.castShadow = true;
 
@@ -92,7 +99,7 @@ export default class Power {
     }
 
     _setupMeshes(): void {
-        this._lateNight = new LateNight();
+        this._lateNight = new LateNight(this._sceneLoader);
 
 
         const floor = new Mesh(
@@ -137,18 +144,15 @@ export default class Power {
 
     }
 
-    // public dispose(): void {
-    //     this._meshesGroup.traverse((child) => {
-    //         if ((child as any).isMesh) {
-    //             (child as any).geometry.dispose();
-    //             if (Array.isArray((child as any).material)) {
-    //                 (child as any).material.forEach((material: any) => material.dispose());
-    //             } else {
-    //                 (child as any).material.dispose();
-    //             }
-    //         }
-    //     });
-    // }
+    public dispose(): void {
+        this._lateNight?.dispose();
+        this._lateNight = undefined;
+
+        this._componentsGroup.removeFromParent();
+        disposeObject(this._componentsGroup);
+        this._meshesGroup.clear();
+        this._lightsGroup.clear();
+    }
 
     public setDebug(debug: any): void {
         if (!debug) return;
@@ -157,4 +161,8 @@ export default class Power {
     public get componentsGroup(): Group {
         return this._componentsGroup;
     }
+
+    public get lights(): Light[] {
+        return this._lightsGroup.children.filter((child): child is Light => (child as Light).isLight);
+    }
 }
\ No newline at end of file
@@ -0,0 +1,201 @@
+// QualityGovernor.ts
+import { SMAAPreset } from "postprocessing";
+import type Stats from "stats-gl";
+import { Vector2, type Light, type LightShadow, type Object3D } from "three";
+import type { FolderApi, TabPageApi } from "tweakpane";
+import { DEFAULT_QUALITY } from "./postprocessing/Constants";
+import type { QualitySettings } from "./postprocessing/EffectRegistry";
+
+export type QualityTier = QualitySettings & {
+    name: string;
+    renderScale: number;      // drawing buffer resolution relative to the (capped) device pixel ratio
+    shadowMapScale: number;   // relative to the size each light's shadow map was authored with
+};
+
+/** Cheapest first; the governor moves one step at a time. */
+export const QUALITY_TIERS: QualityTier[] = [
+    { ...DEFAULT_QUALITY, name: "Low", renderScale: 0.5, shadowMapScale: 0.25, ssaoSamples: 6, ssaoRings: 4, ssaoResolutionScale: 0.25, bloomResolutionScale: 0.5, smaaPreset: SMAAPreset.LOW },
+    { ...DEFAULT_QUALITY, name: "Medium", renderScale: 0.75, shadowMapScale: 0.5, ssaoSamples: 8, ssaoRings: 5, bloomResolutionScale: 0.75, smaaPreset: SMAAPreset.MEDIUM },
+    { ...DEFAULT_QUALITY, name: "High", renderScale: 1, shadowMapScale: 1 },
+    { ...DEFAULT_QUALITY, name: "Ultra", renderScale: 1, shadowMapScale: 2, ssaoSamples: 16, ssaoResolutionScale: 1, smaaPreset: SMAAPreset.ULTRA },
+];
+
+// hysteresis: step down quickly when over budget, up slowly and only with clear headroom
+const DOWN_THRESHOLD = 1.1;          // × target frame time
+const UP_THRESHOLD = 0.7;
+const DOWN_DELAY = 1;                // seconds out of band before a step
+const UP_DELAY = 3;
+const MAX_UP_DELAY = 60;
+const FAILED_UP_WINDOW = 5;          // a step up undone within this long doubles the next up delay
+const SETTLE_TIME = 1.5;             // stats-gl averages ~40 frames; skip the ones from the old tier
+
+// without timer queries the frame interval is all there is, and vsync caps it at the refresh
+// rate: it can never show headroom, so being on target counts (the back-off stops ping-pong)
+const INTERVAL_UP_THRESHOLD = 1.05;
+
+const _authoredShadowSizes = new WeakMap<LightShadow, Vector2>();
+
+/** Resizes every shadow map under `root` to `scale` × the size it had on the first call. */
+export function scaleShadowMaps(root: Object3D, scale: number): void {
+    root.traverse((object) => {
+        const shadow = (object as Light).shadow;
+        if (!(object as Light).isLight || !shadow) return;
+
+        if (!_authoredShadowSizes.has(shadow)) _authoredShadowSizes.set(shadow, shadow.mapSize.clone());
+        const authored = _authoredShadowSizes.get(shadow)!;
+        const width = Math.max(Math.round(authored.x * scale), 128);
+        const height = Math.max(Math.round(authored.y * scale), 128);
+        if (shadow.mapSize.x === width && shadow.mapSize.y === height) return;
+
+        shadow.mapSize.set(width, height);
+        // three allocates a map of the new size on the next shadow render
+        shadow.map?.dispose();
+        shadow.map = null;
+    });
+}
+
+const mean = (values: number[]) => values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Keeps the frame time near a target by stepping through QUALITY_TIERS. Reads
+ * the GPU and CPU render times stats-gl measures (the frame interval when the
+ * GPU has no timer queries) and hands every tier change to `onChange`.
+ * Picking a tier by hand locks it until unlocked.
+ */
+export class QualityGovernor {
+    public readonly state = {
+        tier: "High",
+        locked: false,
+        targetMs: 1000 / 60,
+        frameMs: 0,
+        gpuMs: 0,
+        cpuMs: 0,
+    };
+
+    private _stats: Stats;
+    private _onChange: (tier: QualityTier) => void;
+    private _index: number;
+    private _lastTime: number | null = null;
+    private _interval = 0;          // smoothed rAF interval (ms)
+    private _overTime = 0;          // seconds spent above / below the band
+    private _underTime = 0;
+    private _settle = 0;
+    private _upDelay = UP_DELAY;
+    private _lastUpTime = -Infinity;
+    private _folder: FolderApi | null = null;
+
+    constructor(stats: Stats, onChange: (tier: QualityTier) => void, initialTier = "High") {
+        this._stats = stats;
+        this._onChange = onChange;
+        this._index = Math.max(QUALITY_TIERS.findIndex(tier => tier.name === initialTier), 0);
+        this.state.tier = QUALITY_TIERS[this._index].name;
+    }
+
+    public get tier(): QualityTier {
+        return QUALITY_TIERS[this._index];
+    }
+
+    /** Whether GPU timings come from timer queries; otherwise the frame interval stands in. */
+    public get hasGpuTiming(): boolean {
+        return Boolean(this._stats.ext);
+    }
+
+    public setTier(name: string, lock = true): void {
+        const index = QUALITY_TIERS.findIndex(tier => tier.name === name);
+        if (index < 0) return;
+        this.state.locked = lock;
+        if (index !== this._index) this._apply(index);
+        this._folder?.refresh();
+    }
+
+    public unlock(): void {
+        this.state.locked = false;
+        this._resetBackoff();
+    }
+
+    public setTarget(targetMs: number): void {
+        this.state.targetMs = targetMs;
+        this._resetBackoff();
+    }
+
+    /** Once per frame after stats.update(), with the rAF timestamp. */
+    public update(time: number): void {
+        const dt = this._lastTime === null ? 0 : (time - this._lastTime) / 1000;
+        this._lastTime = time;
+        // first frame, hidden tab or a long stall: nothing to learn from it
+        if (dt <= 0 || dt > 0.5) {
+            this._overTime = 0;
+            this._underTime = 0;
+            return;
+        }
+
+        this._interval += (dt * 1000 - this._interval) * 0.1;
+        const cost = this._measure();
+        if (this.state.locked) return;
+
+        this._settle -= dt;
+        if (this._settle > 0) return;
+
+        const target = this.state.targetMs;
+        const upLimit = target * (this.hasGpuTiming ? UP_THRESHOLD : INTERVAL_UP_THRESHOLD);
+
+        if (cost > target * DOWN_THRESHOLD && this._index > 0) {
+            this._underTime = 0;
+            this._overTime += dt;
+            if (this._overTime < DOWN_DELAY) return;
+            if (time / 1000 - this._lastUpTime < FAILED_UP_WINDOW + SETTLE_TIME) this._upDelay = Math.min(this._upDelay * 2, MAX_UP_DELAY);
+            this._apply(this._index - 1);
+        } else if (cost < upLimit && this._index < QUALITY_TIERS.length - 1) {
+            this._overTime = 0;
+            this._underTime += dt;
+            if (this._underTime < this._upDelay) return;
+            this._lastUpTime = time / 1000;
+            this._apply(this._index + 1);
+        } else {
+            this._overTime = 0;
+            this._underTime = 0;
+        }
+    }
+
+    public setupDebugPanel(root: TabPageApi) {
+        const folder = this._folder = root.addFolder({ title: "⚡ Quality", expanded: false });
+        const tiers = Object.fromEntries(QUALITY_TIERS.map(tier => [tier.name, tier.name]));
+
+        // the governor's own steps refresh this binding too; only a pick by hand locks
+        folder.addBinding(this.state, "tier", { label: "Tier", options: tiers })
+            .on("change", (ev) => { if (ev.value !== this.tier.name) this.setTier(ev.value); });
+        folder.addBinding(this.state, "locked", { label: "Lock" })
+            .on("change", (ev) => { if (!ev.value) this.unlock(); });
+        folder.addBinding(this.state, "targetMs", { label: "Target (ms)", min: 4, max: 50, step: 0.1 })
+            .on("change", (ev) => this.setTarget(ev.value));
+
+        folder.addBinding(this.state, "frameMs", { label: "Frame (ms)", readonly: true, format: (v: number) => v.toFixed(2) });
+        folder.addBinding(this.state, "gpuMs", { label: this.hasGpuTiming ? "GPU (ms)" : "GPU (n/a)", readonly: true, format: (v: number) => v.toFixed(2) });
+        folder.addBinding(this.state, "cpuMs", { label: "CPU (ms)", readonly: true, format: (v: number) => v.toFixed(2) });
+    }
+
+    /** Frame cost in ms: the slower of GPU and CPU render time, or the frame interval without GPU timing. */
+    private _measure(): number {
+        this.state.gpuMs = mean(this._stats.averageGpu.logs);
+        this.state.cpuMs = mean(this._stats.averageCpu.logs);
+        this.state.frameMs = this.hasGpuTiming
+            ? Math.max(this.state.gpuMs, this.state.cpuMs)
+            : Math.max(this._interval, this.state.cpuMs);
+        return this.state.frameMs;
+    }
+
+    private _apply(index: number): void {
+        this._index = index;
+        this.state.tier = QUALITY_TIERS[index].name;
+        this._overTime = 0;
+        this._underTime = 0;
+        this._settle = SETTLE_TIME;
+        this._onChange(QUALITY_TIERS[index]);
+        this._folder?.refresh();
+    }
+
+    private _resetBackoff(): void {
+        this._upDelay = UP_DELAY;
+        this._lastUpTime = -Infinity;
+    }
+}
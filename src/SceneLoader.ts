@@ -0,0 +1,204 @@
+// SceneLoader.ts
+import { Box3, Group, MathUtils, Sphere, Vector3, type Camera, type Object3D, type OrthographicCamera, type PerspectiveCamera, type Scene } from "three";
+import type { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import type { FolderApi, ListBladeApi } from "tweakpane";
+import { assetManager } from "./AssetManager";
+import { pickFile } from "./postprocessing/FileUtils";
+import { sceneTags } from "./SceneTags";
+
+/** Models shipped in public/models (file name without extension -> url), read from the folder at build time. */
+export const MODEL_FILES: Record<string, string> = Object.fromEntries(
+    Object.keys(import.meta.glob("/public/models/*.{glb,gltf}", { query: "?url" }))
+        .map((path) => [path.replace(/^.*\/|\.[^.]+$/g, ""), path.replace(/^\/public/, "")])
+);
+
+const NONE = "";
+
+export function isModelFile(fileName: string): boolean {
+    return /\.(glb|gltf)$/i.test(fileName);
+}
+
+/** What the loader adds models to and frames. */
+export interface SceneLoaderTarget {
+    readonly scene: Scene | null;
+    readonly camera: Camera | null;
+    readonly controls: OrbitControls | null;
+    readonly canvas: HTMLCanvasElement;
+}
+
+/**
+ * One glTF model at a time, from MODEL_FILES or a .glb / .gltf dropped on the
+ * canvas. Meshes cast and receive shadows unless their userData tags say
+ * otherwise (see SceneTags), and the camera is framed on the model's bounds.
+ */
+export class SceneLoader {
+    public readonly state = {
+        model: NONE,        // MODEL_FILES url, or the dropped file name
+        frameOnLoad: true,
+    };
+
+    private _target: SceneLoaderTarget;
+    private _root = new Group();
+    private _model: Object3D | null = null;
+    private _key: string | null = null;
+    private _request = 0;
+    private _list: ListBladeApi<string> | null = null;
+
+    constructor(target: SceneLoaderTarget) {
+        this._target = target;
+        this._root.name = "Loaded Model";
+        target.scene?.add(this._root);
+        target.canvas.addEventListener("dragover", this._onDragOver);
+        target.canvas.addEventListener("drop", this._onDrop);
+    }
+
+    public get model(): Object3D | null {
+        return this._model;
+    }
+
+    /** Loads a model from a url (e.g. MODEL_FILES); the empty string unloads. */
+    public async load(url: string, frame = this.state.frameOnLoad): Promise<void> {
+        if (!url) return this.unload();
+        const request = ++this._request;
+        const key = `model:${url}`;
+        const gltf = await assetManager.loadGLTF(key, url);
+        // a newer load won meanwhile; the asset manager already logged a failure
+        if (request !== this._request || !gltf) return;
+        this._setModel(key, url, gltf.scene, frame);
+    }
+
+    /** Loads a dropped or picked .glb / .gltf (a .gltf only with its buffers embedded). */
+    public async loadFile(file: File): Promise<void> {
+        const request = ++this._request;
+        const key = `file:${file.name}:${file.size}:${file.lastModified}`;
+        const data = /\.gltf$/i.test(file.name) ? await file.text() : await file.arrayBuffer();
+        const gltf = await assetManager.parseGLTF(key, data);
+        if (request !== this._request || !gltf) return;
+        this._setModel(key, file.name, gltf.scene, this.state.frameOnLoad);
+    }
+
+    public unload(): void {
+        this._request++;
+        if (this._model) {
+            sceneTags.remove(this._model);
+            this._model.removeFromParent();
+            this._model = null;
+        }
+        // freed with its request, so loading it again starts fresh
+        if (this._key) assetManager.release(this._key);
+        this._key = null;
+        this._setState(NONE);
+    }
+
+    /** Orbit target to the centre of the model's bounds, camera pulled back until they fit. */
+    public frame(object: Object3D | null = this._model): void {
+        const { camera, controls } = this._target;
+        if (!object || !camera || !controls) return;
+
+        const sphere = new Box3().setFromObject(object).getBoundingSphere(new Sphere());
+        if (sphere.isEmpty() || sphere.radius === 0) return;
+
+        const cam = camera as PerspectiveCamera & OrthographicCamera;
+        const direction = _direction.subVectors(camera.position, controls.target).normalize();
+        if (direction.lengthSq() === 0) direction.set(0, 0, 1);
+
+        let distance: number;
+        if (cam.isPerspectiveCamera) {
+            // the tighter of the vertical and horizontal fov decides
+            const halfFov = MathUtils.degToRad(cam.fov / 2);
+            const halfFovX = Math.atan(Math.tan(halfFov) * cam.aspect);
+            distance = sphere.radius / Math.sin(Math.min(halfFov, halfFovX));
+        } else {
+            distance = sphere.radius * 2;
+            const halfHeight = (cam.top - cam.bottom) / 2;
+            const halfWidth = (cam.right - cam.left) / 2;
+            cam.zoom = Math.min(halfHeight, halfWidth) / sphere.radius;
+        }
+
+        controls.target.copy(sphere.center);
+        camera.position.copy(sphere.center).addScaledVector(direction, distance);
+        cam.updateProjectionMatrix();
+        controls.update();
+    }
+
+    public setupDebugPanel(folder: FolderApi) {
+        this._list = folder.addBlade({
+            view: "list",
+            label: "Model",
+            options: [],
+            value: this.state.model,
+        }) as ListBladeApi<string>;
+        this._list.on("change", (ev) => {
+            if (ev.value !== this.state.model && ev.value in this._options()) this.load(ev.value);
+        });
+        this._updateList();
+
+        folder.addButton({ title: "Open File…" })
+            .on("click", async () => {
+                const file = await pickFile(".glb,.gltf");
+                if (file) this.loadFile(file);
+            });
+        folder.addBinding(this.state, "frameOnLoad", { label: "Frame on Load" });
+        folder.addButton({ title: "Frame Model" })
+            .on("click", () => this.frame());
+    }
+
+    public dispose(): void {
+        this._target.canvas.removeEventListener("dragover", this._onDragOver);
+        this._target.canvas.removeEventListener("drop", this._onDrop);
+        this.unload();
+        this._root.removeFromParent();
+        this._list = null;
+    }
+
+    private _setModel(key: string, name: string, model: Object3D, frame: boolean) {
+        this.unload();
+        // unload bumped it; this load is still the latest
+        this._key = key;
+        this._model = model;
+
+        model.traverse((child) => {
+            if ((child as any).isMesh) {
+                child.castShadow = true;
+                child.receiveShadow = true;
+            }
+        });
+        sceneTags.apply(model);
+        this._root.add(model);
+
+        this._setState(name);
+        if (frame) this.frame(model);
+    }
+
+    private _setState(model: string) {
+        this.state.model = model;
+        this._updateList();
+    }
+
+    /** Shipped models plus the dropped one while it is loaded (value -> label). */
+    private _options(): Record<string, string> {
+        const options: Record<string, string> = { [NONE]: "None" };
+        Object.entries(MODEL_FILES).forEach(([label, url]) => { options[url] = label; });
+        if (this.state.model && !(this.state.model in options)) options[this.state.model] = `${this.state.model} (dropped)`;
+        return options;
+    }
+
+    private _updateList() {
+        if (!this._list) return;
+        this._list.options = Object.entries(this._options()).map(([value, text]) => ({ text, value }));
+        this._list.value = this.state.model;
+    }
+
+    private _onDragOver = (ev: DragEvent) => {
+        ev.preventDefault();
+    };
+
+    private _onDrop = (ev: DragEvent) => {
+        const file = ev.dataTransfer?.files[0];
+        if (!file || !isModelFile(file.name)) return;
+        ev.preventDefault();
+        this.loadFile(file);
+    };
+}
+
+const _direction = new Vector3();
@@ -0,0 +1,129 @@
+// SceneTags.ts
+import type { Mesh, MeshStandardMaterial, Object3D } from "three";
+
+/**
+ * userData tags a model can carry. Custom properties set in Blender are
+ * exported as glTF extras and end up in userData, so artists tag objects
+ * there. Applied by sceneTags.apply() when a model is added:
+ *
+ * - `isGlass` — casts and receives no shadows, left out of SSAO and SSR
+ * - `isEmmisive` (or `isEmissive`) — emissive × `emissiveIntensity` (default
+ *   EMISSIVE_INTENSITY), bright enough for the bloom threshold
+ * - `noShadow` — casts and receives no shadows
+ * - `bloom` — glows: like isEmmisive, with the material colour as emissive
+ *   when it has none; the only meshes selective bloom lets through
+ * - `bloomIntensity` — multiplies the mesh's selective bloom (default 1)
+ * - `outline` — drawn by the Outline effect
+ * - `noSSAO` — left out of SSAO (its pixels keep no occlusion)
+ * - `noSSR` — left out of SSR (its pixels get no screen-space reflection)
+ */
+export type SceneTag = "glass" | "emissive" | "noShadow" | "bloom" | "outline" | "noSSAO" | "noSSR";
+
+export const EMISSIVE_INTENSITY = 2;
+
+/** Render layers effects find tagged objects on (clear of the ones postprocessing Selections hand out). */
+export const TAG_LAYERS = {
+    noSSR: 28,
+    noSSAO: 29,
+    bloom: 30,
+} as const;
+
+type TagListener = () => void;
+
+const TAG_KEYS: Record<SceneTag, string[]> = {
+    glass: ["isGlass"],
+    emissive: ["isEmmisive", "isEmissive"],
+    noShadow: ["noShadow"],
+    bloom: ["bloom"],
+    outline: ["outline"],
+    noSSAO: ["noSSAO"],
+    noSSR: ["noSSR"],
+};
+
+const hasTag = (object: Object3D, tag: SceneTag) => TAG_KEYS[tag].some(key => Boolean(object.userData[key]));
+
+/** Selective bloom multiplier of a mesh (userData.bloomIntensity). */
+export function bloomIntensity(object: Object3D): number {
+    const intensity = Number(object.userData.bloomIntensity ?? 1);
+    return Number.isFinite(intensity) ? Math.max(intensity, 0) : 1;
+}
+
+/**
+ * Applies the userData tags of everything under a root and keeps, per tag,
+ * the meshes that have it, so effects can select them (and hear about
+ * models coming and going).
+ */
+export class SceneTags {
+    private _objects = new Map<SceneTag, Set<Object3D>>();
+    private _listeners = new Set<TagListener>();
+
+    /** Meshes currently carrying `tag` (glass counts as noSSAO and noSSR, emissive as bloom). */
+    public objects(tag: SceneTag): Object3D[] {
+        return [...this._objects.get(tag) ?? []];
+    }
+
+    public has(object: Object3D, tag: SceneTag): boolean {
+        return this._objects.get(tag)?.has(object) ?? false;
+    }
+
+    public count(tag: SceneTag): number {
+        return this._objects.get(tag)?.size ?? 0;
+    }
+
+    /** Called after every apply / remove; returns the unsubscribe. */
+    public onChange(listener: TagListener): () => void {
+        this._listeners.add(listener);
+        return () => this._listeners.delete(listener);
+    }
+
+    public apply(root: Object3D): void {
+        root.traverse((object) => {
+            const mesh = object as Mesh;
+            if (!mesh.isMesh) return;
+
+            const tags = (Object.keys(TAG_KEYS) as SceneTag[]).filter(tag => hasTag(mesh, tag));
+            if (tags.includes("glass")) tags.push("noShadow", "noSSAO", "noSSR");
+            if (tags.includes("emissive")) tags.push("bloom");
+            if (!tags.length) return;
+
+            if (tags.includes("noShadow")) {
+                mesh.castShadow = false;
+                mesh.receiveShadow = false;
+            }
+            if (tags.includes("bloom")) this._applyEmissive(mesh);
+            if (tags.includes("noSSAO")) mesh.layers.enable(TAG_LAYERS.noSSAO);
+            if (tags.includes("noSSR")) mesh.layers.enable(TAG_LAYERS.noSSR);
+            if (tags.includes("bloom")) mesh.layers.enable(TAG_LAYERS.bloom);
+
+            new Set(tags).forEach(tag => {
+                if (!this._objects.has(tag)) this._objects.set(tag, new Set());
+                this._objects.get(tag)!.add(mesh);
+            });
+        });
+        this._emit();
+    }
+
+    /** Forgets everything under `root` (before it is removed from the scene). */
+    public remove(root: Object3D): void {
+        root.traverse((object) => this._objects.forEach(objects => objects.delete(object)));
+        this._emit();
+    }
+
+    /** Sets, not multiplies: materials shared between tagged meshes come out the same. */
+    private _applyEmissive(mesh: Mesh) {
+        const intensity = Number(mesh.userData.emissiveIntensity ?? EMISSIVE_INTENSITY);
+        const materials = (Array.isArray(mesh.material) ? mesh.material : [mesh.material]) as MeshStandardMaterial[];
+        materials.forEach(material => {
+            if (!material.emissive) return;
+            if (material.emissive.getHex() === 0 && material.color) material.emissive.copy(material.color);
+            material.emissiveIntensity = intensity;
+        });
+    }
+
+    private _emit() {
+        this._listeners.forEach(listener => listener());
+    }
+}
+
+/** Shared by the scene loader and the effects that honour tags. */
+export const sceneTags = new SceneTags();
@@ -0,0 +1,413 @@
+// Timeline.ts
+import type { Camera, Light } from "three";
+import type { BladeApi, ButtonApi, FolderApi, ListBladeApi, TabPageApi } from "tweakpane";
+import { Params } from "./postprocessing/Constants";
+import { downloadText, pickFile } from "./postprocessing/FileUtils";
+
+/** Bump when the timeline layout changes; add the upgrade step to migrateTimeline. */
+export const TIMELINE_VERSION = 1;
+
+export type Easing = "linear" | "step" | "easeIn" | "easeOut" | "easeInOut";
+
+/** A number, or a colour / vector as numeric components ({ r, g, b }, { x, y, z }). */
+export type KeyValue = number | Record<string, number>;
+
+export type Keyframe = {
+    time: number;       // seconds
+    value: KeyValue;
+    easing: Easing;     // shapes the segment towards the next key
+};
+
+/**
+ * Targets: "params.<key>" (any numeric, colour or vector entry of Params),
+ * "camera.position", "light.<name>.intensity" (the Power lights).
+ */
+export type Track = {
+    target: string;
+    keys: Keyframe[];   // sorted by time
+};
+
+export type TimelineData = {
+    version: number;
+    duration: number;
+    loop: boolean;
+    tracks: Track[];
+};
+
+/** What the timeline animates. */
+export interface TimelineTarget {
+    readonly camera: Camera | null;
+    readonly lights: Light[];
+    /** Writes Params values and pushes them to the live effects. */
+    setParams(values: Record<string, unknown>): void;
+    /** Pane bindings re-read what the timeline wrote. */
+    refresh(): void;
+}
+
+export const EASINGS: Record<Easing, (u: number) => number> = {
+    linear: u => u,
+    step: () => 0,
+    easeIn: u => u * u * u,
+    easeOut: u => 1 - (1 - u) ** 3,
+    easeInOut: u => u < 0.5 ? 4 * u * u * u : 1 - (-2 * u + 2) ** 3 / 2,
+};
+
+// keys closer than this to the playhead are the key "at" the playhead
+const KEY_EPSILON = 1e-3;
+
+const isKeyValue = (value: unknown): value is KeyValue =>
+    typeof value === "number" || (
+        value !== null && typeof value === "object" &&
+        Object.keys(value).length > 0 &&
+        Object.values(value).every(component => typeof component === "number")
+    );
+
+const lightKey = (light: Light) => light.name || light.uuid;
+
+function interpolate(a: KeyValue, b: KeyValue, t: number): KeyValue {
+    if (typeof a === "number" || typeof b === "number") {
+        return typeof a === "number" && typeof b === "number" ? a + (b - a) * t : t < 1 ? a : b;
+    }
+    return Object.fromEntries(Object.entries(a).map(([component, from]) => [component, from + ((b[component] ?? from) - from) * t]));
+}
+
+/** Value of a track at `time`; held before the first and after the last key. */
+export function sampleTrack(keys: Keyframe[], time: number): KeyValue | undefined {
+    if (!keys.length) return undefined;
+    if (time <= keys[0].time) return keys[0].value;
+    const last = keys[keys.length - 1];
+    if (time >= last.time) return last.value;
+
+    const next = keys.findIndex(key => key.time > time);
+    const from = keys[next - 1];
+    const to = keys[next];
+    const u = (time - from.time) / (to.time - from.time);
+    return interpolate(from.value, to.value, EASINGS[from.easing](u));
+}
+
+/** Validates parsed JSON and upgrades older versions; throws on anything it cannot read. */
+export function migrateTimeline(data: unknown): TimelineData {
+    const timeline = data as Partial<TimelineData> | null;
+    if (!timeline || typeof timeline !== "object") throw new Error("Timeline is not an object");
+
+    const version = timeline.version;
+    if (typeof version !== "number") throw new Error("Timeline has no version");
+    if (version > TIMELINE_VERSION) throw new Error(`Timeline version ${version} is newer than supported (${TIMELINE_VERSION})`);
+
+    const tracks = (Array.isArray(timeline.tracks) ? timeline.tracks : [])
+        .filter((track): track is Track => typeof track?.target === "string" && Array.isArray(track.keys))
+        .map(track => ({
+            target: track.target,
+            keys: track.keys
+                .filter(key => typeof key?.time === "number" && isKeyValue(key.value))
+                .map(key => ({ time: key.time, value: structuredClone(key.value), easing: key.easing in EASINGS ? key.easing : "linear" as Easing }))
+                .sort((a, b) => a.time - b.time),
+        }))
+        .filter(track => track.keys.length);
+
+    return {
+        version: TIMELINE_VERSION,
+        duration: typeof timeline.duration === "number" && timeline.duration > 0 ? timeline.duration : 10,
+        loop: timeline.loop ?? true,
+        tracks,
+    };
+}
+
+export function parseTimeline(json: string): TimelineData {
+    return migrateTimeline(JSON.parse(json));
+}
+
+export function serializeTimeline(timeline: TimelineData): string {
+    return JSON.stringify(timeline, null, 2);
+}
+
+/**
+ * Keyframe tracks over Params, the camera position and light intensities.
+ * The playhead is derived from the app clock passed to update(), not
+ * accumulated, so the same clock values (a fixed-timestep capture) always
+ * sample the same shot. Nothing is written while paused, except on a seek,
+ * so the pane stays editable.
+ */
+export class Timeline {
+    public readonly state = {
+        playing: false,
+        loop: true,
+        time: 0,            // playhead (s)
+        duration: 10,
+        speed: 1,
+    };
+    public readonly edit = {
+        target: "camera.position",
+        easing: "easeInOut" as Easing,
+        keys: "",           // key times of the selected track
+    };
+
+    private _target: TimelineTarget;
+    private _tracks = new Map<string, Keyframe[]>();
+    // clock (ms) and playhead (s) playback started from; the clock is taken on the first update
+    private _anchor: { clock: number | null; time: number } = { clock: null, time: 0 };
+    private _syncingPane = false;
+    private _folder: FolderApi | null = null;
+    private _playButton: ButtonApi | null = null;
+    private _scrubber: BladeApi | null = null;
+
+    constructor(target: TimelineTarget) {
+        this._target = target;
+    }
+
+    /** Every animatable target, in panel order. */
+    public targets(): string[] {
+        const params = Object.entries(Params)
+            .filter(([, value]) => isKeyValue(value))
+            .map(([key]) => `params.${key}`);
+        const lights = this._target.lights.map(light => `light.${lightKey(light)}.intensity`);
+        return ["camera.position", ...lights, ...params];
+    }
+
+    public get tracks(): Track[] {
+        return [...this._tracks].map(([target, keys]) => ({ target, keys }));
+    }
+
+    public play(): void {
+        if (this.state.playing) return;
+        if (!this.state.loop && this.state.time >= this.state.duration) this.state.time = 0;
+        this.state.playing = true;
+        this._anchor = { clock: null, time: this.state.time };
+        this._updatePanel();
+    }
+
+    public pause(): void {
+        if (!this.state.playing) return;
+        this.state.playing = false;
+        this._refreshTarget();
+        this._updatePanel();
+    }
+
+    /** Moves the playhead and writes the sampled values (playback carries on from there). */
+    public seek(time: number): void {
+        this.state.time = Math.min(Math.max(time, 0), this.state.duration);
+        this._anchor = { clock: null, time: this.state.time };
+        this._apply(this.state.time);
+        if (!this.state.playing) this._refreshTarget();
+        this._updatePanel();
+    }
+
+    /** Once per frame with the app clock (ms), before the controls update. */
+    public update(clock: number): void {
+        if (!this.state.playing) return;
+
+        const { duration, loop, speed } = this.state;
+        this._anchor.clock ??= clock;
+        let time = this._anchor.time + (clock - this._anchor.clock) / 1000 * speed;
+
+        if (loop && duration > 0) {
+            time = ((time % duration) + duration) % duration;
+        } else if (time >= duration || time < 0) {
+            time = Math.min(Math.max(time, 0), duration);
+            this.state.playing = false;
+            this._refreshTarget();
+        }
+
+        this.state.time = time;
+        this._apply(time);
+        this._updatePanel();
+    }
+
+    /** Keys the current value of `target` at the playhead (replacing a key already there). */
+    public addKey(target = this.edit.target, easing = this.edit.easing): void {
+        const value = this._read(target);
+        if (value === undefined) return;
+
+        const keys = this._tracks.get(target) ?? [];
+        const time = this.state.time;
+        const key: Keyframe = { time, value, easing };
+        const existing = keys.findIndex(k => Math.abs(k.time - time) < KEY_EPSILON);
+        if (existing >= 0) keys[existing] = key;
+        else keys.splice(keys.filter(k => k.time < time).length, 0, key);
+
+        this._tracks.set(target, keys);
+        this._updatePanel();
+    }
+
+    public removeKey(target = this.edit.target): void {
+        const keys = this._tracks.get(target);
+        if (!keys) return;
+        const remaining = keys.filter(k => Math.abs(k.time - this.state.time) >= KEY_EPSILON);
+        if (remaining.length) this._tracks.set(target, remaining);
+        else this._tracks.delete(target);
+        this._updatePanel();
+    }
+
+    public clearTrack(target = this.edit.target): void {
+        this._tracks.delete(target);
+        this._updatePanel();
+    }
+
+    /** Playhead to the previous (-1) or next (1) key of the selected track. */
+    public stepKey(direction: -1 | 1): void {
+        const times = (this._tracks.get(this.edit.target) ?? []).map(key => key.time);
+        const time = direction > 0
+            ? times.find(t => t > this.state.time + KEY_EPSILON)
+            : times.reverse().find(t => t < this.state.time - KEY_EPSILON);
+        if (time !== undefined) this.seek(time);
+    }
+
+    public toJSON(): TimelineData {
+        return {
+            version: TIMELINE_VERSION,
+            duration: this.state.duration,
+            loop: this.state.loop,
+            tracks: structuredClone(this.tracks),
+        };
+    }
+
+    /** Replaces every track; the playhead goes back to the start. */
+    public load(data: TimelineData): void {
+        this._tracks = new Map(data.tracks.map(track => [track.target, structuredClone(track.keys)]));
+        this.state.duration = data.duration;
+        this.state.loop = data.loop;
+        this.seek(0);
+    }
+
+    public exportFile(fileName = "timeline.json"): void {
+        downloadText(fileName, serializeTimeline(this.toJSON()), "application/json");
+    }
+
+    /** Parses and loads a timeline file; returns false if it could not be read. */
+    public async importFile(file: Blob): Promise<boolean> {
+        try {
+            this.load(parseTimeline(await file.text()));
+            return true;
+        } catch (err) {
+            console.error("Error importing timeline:", err);
+            return false;
+        }
+    }
+
+    public setupDebugPanel(page: TabPageApi) {
+        // ▶️ Playback
+        const playback = this._folder = page.addFolder({ title: "▶️ Playback" });
+        this._playButton = playback.addButton({ title: "Play" });
+        this._playButton.on("click", () => this.state.playing ? this.pause() : this.play());
+        playback.addButton({ title: "Rewind" })
+            .on("click", () => this.seek(0));
+        this._addScrubber(playback);
+        playback.addBinding(this.state, "duration", { label: "Duration (s)", min: 0.5, max: 120, step: 0.5 })
+            .on("change", () => {
+                if (this._syncingPane) return;
+                if (this.state.time > this.state.duration) this.seek(this.state.duration);
+                this._addScrubber(playback);
+            });
+        playback.addBinding(this.state, "loop", { label: "Loop" });
+        playback.addBinding(this.state, "speed", { label: "Speed", min: 0.1, max: 4, step: 0.05 })
+            .on("change", () => { this._anchor = { clock: null, time: this.state.time }; });
+
+        // 🔑 Keys
+        const keysFolder = page.addFolder({ title: "🔑 Keys" });
+        const targetList = keysFolder.addBlade({
+            view: "list",
+            label: "Target",
+            options: this.targets().map(target => ({ text: target, value: target })),
+            value: this.edit.target,
+        }) as ListBladeApi<string>;
+        targetList.on("change", (ev) => {
+            this.edit.target = ev.value;
+            this._updatePanel();
+        });
+        keysFolder.addBinding(this.edit, "easing", {
+            label: "Easing",
+            options: Object.fromEntries(Object.keys(EASINGS).map(easing => [easing, easing])),
+        });
+        keysFolder.addBinding(this.edit, "keys", { label: "Keys", readonly: true });
+        keysFolder.addButton({ title: "Add Key" })
+            .on("click", () => this.addKey());
+        keysFolder.addButton({ title: "Remove Key" })
+            .on("click", () => this.removeKey());
+        keysFolder.addButton({ title: "◀ Previous Key" })
+            .on("click", () => this.stepKey(-1));
+        keysFolder.addButton({ title: "Next Key ▶" })
+            .on("click", () => this.stepKey(1));
+        keysFolder.addButton({ title: "Clear Track" })
+            .on("click", () => this.clearTrack());
+
+        // 💾 File
+        const fileFolder = page.addFolder({ title: "💾 File", expanded: false });
+        fileFolder.addButton({ title: "Import…" })
+            .on("click", async () => {
+                const file = await pickFile(".json,application/json");
+                if (file) await this.importFile(file);
+            });
+        fileFolder.addButton({ title: "Export" })
+            .on("click", () => this.exportFile());
+
+        this._updatePanel();
+    }
+
+    public dispose(): void {
+        this.state.playing = false;
+        this._tracks.clear();
+        this._folder = null;
+        this._playButton = null;
+        this._scrubber = null;
+    }
+
+    /** Time slider over the current duration (slider ranges are fixed once created, so it is replaced). */
+    private _addScrubber(folder: FolderApi) {
+        const index = this._scrubber ? folder.children.indexOf(this._scrubber) : folder.children.length;
+        if (this._scrubber) folder.remove(this._scrubber);
+        this._scrubber = folder.addBinding(this.state, "time", { label: "Time (s)", min: 0, max: this.state.duration, step: 0.01, index })
+            .on("change", (ev) => { if (!this._syncingPane) this.seek(ev.value); });
+    }
+
+    private _apply(time: number): void {
+        const params: Record<string, unknown> = {};
+        this._tracks.forEach((keys, target) => {
+            const value = sampleTrack(keys, time);
+            if (value === undefined) return;
+
+            if (target.startsWith("params.")) {
+                params[target.slice("params.".length)] = value;
+            } else if (target === "camera.position") {
+                if (typeof value !== "number") this._target.camera?.position.set(value.x, value.y, value.z);
+            } else if (target.startsWith("light.") && typeof value === "number") {
+                const light = this._light(target);
+                if (light) light.intensity = value;
+            }
+        });
+        if (Object.keys(params).length) this._target.setParams(params);
+    }
+
+    private _read(target: string): KeyValue | undefined {
+        if (target.startsWith("params.")) {
+            const value = (Params as Record<string, unknown>)[target.slice("params.".length)];
+            return isKeyValue(value) ? structuredClone(value) : undefined;
+        }
+        if (target === "camera.position") {
+            const position = this._target.camera?.position;
+            return position && { x: position.x, y: position.y, z: position.z };
+        }
+        return this._light(target)?.intensity;
+    }
+
+    private _light(target: string): Light | undefined {
+        const name = target.slice("light.".length, -".intensity".length);
+        return this._target.lights.find(light => lightKey(light) === name);
+    }
+
+    /** The whole pane re-reads, the scrubber included: none of that is a user seek. */
+    private _refreshTarget(): void {
+        this._syncingPane = true;
+        this._target.refresh();
+        this._syncingPane = false;
+    }
+
+    private _updatePanel(): void {
+        const keys = this._tracks.get(this.edit.target) ?? [];
+        this.edit.keys = keys.length ? keys.map(key => `${key.time.toFixed(2)}s`).join(", ") : "—";
+        if (this._playButton) this._playButton.title = this.state.playing ? "Pause" : "Play";
+
+        this._syncingPane = true;
+        this._folder?.refresh();
+        this._syncingPane = false;
+    }
+}
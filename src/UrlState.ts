@@ -0,0 +1,150 @@
+// UrlState.ts
+import type { PostProcessingPreset } from "./postprocessing/Presets";
+
+/** Bump when the shared layout changes; older links decode through their own entry in DECODERS. */
+export const URL_STATE_VERSION = 1;
+
+type Vec3 = [number, number, number];
+
+/** Everything a shared link reproduces. */
+export type SharedState = {
+    camera: {
+        projection?: "perspective" | "orthographic";   // links from before the switch are perspective
+        position: Vec3;
+        target: Vec3;       // OrbitControls target
+        fov?: number;       // perspective cameras
+        zoom?: number;      // orthographic cameras
+    };
+    // only what differs from the default preset, applied on top of it
+    preset: Pick<PostProcessingPreset, "enabled" | "order" | "params">;
+    tab: number;            // debug panel page
+};
+
+// 5 decimals is well below anything visible and keeps the payload short
+const round = (value: number) => Math.round(value * 1e5) / 1e5;
+
+async function deflate(text: string): Promise<Uint8Array> {
+    const stream = new Blob([text]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function inflate(bytes: Uint8Array): Promise<string> {
+    const stream = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+    return new Response(stream).text();
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = "";
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+const isVec3 = (value: unknown): value is Vec3 =>
+    Array.isArray(value) && value.length === 3 && value.every(component => typeof component === "number");
+
+/** Validates a decoded v1 payload; throws on anything it cannot read. */
+function readStateV1(data: unknown): SharedState {
+    const state = data as Partial<SharedState> | null;
+    if (!state || typeof state !== "object") throw new Error("Shared state is not an object");
+    const camera = state.camera;
+    if (!camera || !isVec3(camera.position) || !isVec3(camera.target)) throw new Error("Shared state has no camera pose");
+
+    return {
+        camera: {
+            projection: camera.projection === "orthographic" ? "orthographic" : "perspective",
+            position: camera.position,
+            target: camera.target,
+            fov: typeof camera.fov === "number" ? camera.fov : undefined,
+            zoom: typeof camera.zoom === "number" ? camera.zoom : undefined,
+        },
+        preset: {
+            enabled: { ...state.preset?.enabled },
+            order: Array.isArray(state.preset?.order) ? state.preset.order.filter(key => typeof key === "string") : [],
+            params: { ...state.preset?.params },
+        },
+        tab: typeof state.tab === "number" ? state.tab : 0,
+    };
+}
+
+// payload (after the "v<version>." prefix) -> current SharedState, one entry per version ever shipped
+const DECODERS: Record<number, (payload: string) => Promise<SharedState>> = {
+    1: async (payload) => readStateV1(JSON.parse(await inflate(fromBase64Url(payload)))),
+};
+
+/** "#v1.<base64url of the deflated JSON>". */
+export async function encodeUrlState(state: SharedState): Promise<string> {
+    const json = JSON.stringify(state, (_key, value) => typeof value === "number" ? round(value) : value);
+    return `#v${URL_STATE_VERSION}.${toBase64Url(await deflate(json))}`;
+}
+
+/** Null for an empty hash or one that is not ours; logs and returns null for a broken link. */
+export async function decodeUrlState(hash: string): Promise<SharedState | null> {
+    const match = /^#?v(\d+)\.([\w-]+)$/.exec(hash);
+    if (!match) return null;
+
+    const version = Number(match[1]);
+    const decode = DECODERS[version];
+    if (!decode) {
+        console.warn(`Shared link version ${version} is not supported (newest: ${URL_STATE_VERSION})`);
+        return null;
+    }
+    try {
+        return await decode(match[2]);
+    } catch (err) {
+        console.error("Error reading shared link:", err);
+        return null;
+    }
+}
+
+/**
+ * Writes the state to the URL hash once changes stop for `delay` ms. The
+ * hash is replaced, not pushed, so scrubbing a slider does not fill the
+ * history (and fires no hashchange).
+ */
+export class UrlStateWriter {
+    private _read: () => SharedState | null;
+    private _delay: number;
+    private _timer: ReturnType<typeof setTimeout> | null = null;
+    private _paused = false;
+
+    constructor(read: () => SharedState | null, delay = 400) {
+        this._read = read;
+        this._delay = delay;
+    }
+
+    public schedule(): void {
+        if (this._paused) return;
+        if (this._timer !== null) clearTimeout(this._timer);
+        this._timer = setTimeout(() => this._write(), this._delay);
+    }
+
+    /** Runs `restore` without the changes it makes being written back. */
+    public withoutWriting(restore: () => void): void {
+        this.cancel();
+        this._paused = true;
+        try {
+            restore();
+        } finally {
+            this._paused = false;
+        }
+    }
+
+    public cancel(): void {
+        if (this._timer !== null) clearTimeout(this._timer);
+        this._timer = null;
+    }
+
+    private async _write() {
+        this._timer = null;
+        const state = this._read();
+        if (!state) return;
+        const hash = await encodeUrlState(state);
+        if (hash === location.hash) return;
+        history.replaceState(history.state, "", hash);
+    }
+}
@@ -0,0 +1,80 @@
+// Zip.ts
+
+export type ZipEntry = {
+    name: string;
+    data: Uint8Array;
+};
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Uncompressed (stored) ZIP archive. Enough for image sequences: PNG and JPEG
+ * are compressed already, so deflate would only cost time. No ZIP64, so the
+ * archive has to stay below 4 GB and 65535 entries.
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+    const encoder = new TextEncoder();
+    const parts: BlobPart[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach(({ name, data }) => {
+        const fileName = encoder.encode(name);
+        const crc = crc32(data);
+
+        // local file header
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034B50, true);
+        local.setUint16(4, 20, true);                // version needed
+        local.setUint16(6, 0x0800, true);            // UTF-8 names
+        local.setUint16(8, 0, true);                 // stored
+        local.setUint16(12, 0x21, true);             // 1980-01-01
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, fileName.length, true);
+        parts.push(local.buffer, fileName, data as Uint8Array<ArrayBuffer>);
+
+        // central directory record
+        const record = new DataView(new ArrayBuffer(46 + fileName.length));
+        record.setUint32(0, 0x02014B50, true);
+        record.setUint16(4, 20, true);               // version made by
+        record.setUint16(6, 20, true);
+        record.setUint16(8, 0x0800, true);
+        record.setUint16(10, 0, true);
+        record.setUint16(14, 0x21, true);
+        record.setUint32(16, crc, true);
+        record.setUint32(20, data.length, true);
+        record.setUint32(24, data.length, true);
+        record.setUint16(28, fileName.length, true);
+        record.setUint32(42, offset, true);
+        new Uint8Array(record.buffer).set(fileName, 46);
+        central.push(new Uint8Array(record.buffer));
+
+        offset += 30 + fileName.length + data.length;
+    });
+
+    const centralSize = central.reduce((size, record) => size + record.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054B50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central as Uint8Array<ArrayBuffer>[], end.buffer], { type: "application/zip" });
+}
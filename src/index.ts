@@ -3,23 +3,36 @@ import {
 	Camera,
 	Color,
 	EquirectangularReflectionMapping,
+	MathUtils,
 	OrthographicCamera,
 	PCFSoftShadowMap,
 	PerspectiveCamera,
 	PMREMGenerator,
 	Scene,
-	TextureLoader,
+	Vector3,
 	WebGLRenderer
 } from 'three';
 // import { ThreePerf } from 'three-perf';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { Pane } from 'tweakpane';
+import { Pane, type FolderApi, type TabApi } from 'tweakpane';
+import { assetManager } from './AssetManager';
+import { CameraBookmarks } from './CameraBookmarks';
+import { Capture } from './Capture';
+import { reportLeaks, snapshotRenderer, type RendererSnapshot } from './LeakReport';
+import { LoadingOverlay } from './LoadingOverlay';
 import { PaneUtils } from './PaneUtils';
+import { QualityGovernor, scaleShadowMaps, type QualityTier } from './QualityGovernor';
+import { SceneLoader } from './SceneLoader';
+import { Timeline } from './Timeline';
 import Power from './Powers/Power';
 import PostProcessingManager from './postprocessing/PostProcessingManager';
+import { diffPreset, PRESET_VERSION } from './postprocessing/Presets';
+import { UrlStateWriter, type SharedState } from './UrlState';
 
 
+export type Projection = 'perspective' | 'orthographic';
 
+const _offset = new Vector3();
 
 export default class Playground {
 	private _viewport: Record<'width' | 'height', number>;
@@ -27,14 +40,34 @@ export default class Playground {
 	private _scene: Scene | null = null;
 	private _renderer: WebGLRenderer | null = null;
 	private _controls: OrbitControls | null = null;
+	private _bookmarks: CameraBookmarks | undefined = undefined;
+	// kept across orthographic stints, which have no fov
+	private _perspectiveFov = 80;
 	private _postprocessing: PostProcessingManager | undefined;
 
+	private _loadingOverlay: LoadingOverlay | null = null;
+
 	private _stats: Stats | undefined = undefined;
+	private _quality: QualityGovernor | undefined = undefined;
+	private _capture: Capture | undefined = undefined;
+	private _timeline: Timeline | undefined = undefined;
+	private _sceneLoader: SceneLoader | undefined = undefined;
 	// private _perf: ThreePerf | undefined = undefined;
 
 	private _power: Power | undefined = undefined;
 
 	public _debugPanel: Pane | null = null;
+	private _debugTab: TabApi | null = null;
+	private _cameraFolder: FolderApi | null = null;
+	private _urlState: UrlStateWriter | null = null;
+
+	private _frame: number | null = null;
+	// clock of the last frame (ms); after a capture it runs on from the captured frames
+	private _time = 0;
+	private _clockOffset = 0;
+	private _resumeClock = false;
+	// renderer.info right after creation, compared on dispose (dev only)
+	private _leakBaseline: RendererSnapshot | null = null;
 
 	constructor(canvas: HTMLCanvasElement) {
 		this._viewport = {
@@ -47,14 +80,23 @@ export default class Playground {
 
 	// Setup all initial configurations
 	init(canvas: HTMLCanvasElement) {
+		this.setupLoadingOverlay();
 		this.setupCamera();
 		this.setupScene();
 		this.setupRenderer(canvas);
 		this.setupComposer();
+		this.setupSceneLoader(canvas);
 		this.setupPowers();
 		this.setupControls();
-		this.setupDebugPanel();
+		this.setupBookmarks();
 		this.setupStats();
+		this.setupQuality();
+		this.setupCapture();
+		this.setupTimeline();
+		this.setupDebugPanel();
+		this.setupUrlState();
+
+		window.addEventListener('resize', this._onResize);
 	}
 
 	setupStats() {
@@ -76,6 +118,13 @@ export default class Playground {
 		this._renderer?.domElement.parentElement?.appendChild(this._stats.dom);
 		this._stats.init(this._renderer);
 
+		// stats-gl wraps every renderer.render in a timer query of its own and only one can run
+		// at a time: its GPU panel (and the governor's GPU timing) pause while passes are profiled
+		const timerQueries = this._stats.ext;
+		this._postprocessing?.profiler.onToggle((active) => {
+			if (this._stats) this._stats.ext = active ? null : timerQueries;
+		});
+
 		// 	this._perf = new ThreePerf({
 		// 		anchorX: 'right',
 		// 		anchorY: 'bottom',
@@ -85,9 +134,151 @@ export default class Playground {
 		// }
 	}
 
+	// Adaptive quality: steps render scale, effect cost and shadow maps from the stats-gl timings
+	setupQuality() {
+		if (!this._stats) return;
+		this._quality = new QualityGovernor(this._stats, this._applyQuality);
+	}
+
+	private _applyQuality = (tier: QualityTier) => {
+		this._postprocessing?.setQuality(tier);
+		if (this._scene) scaleShadowMaps(this._scene, tier.shadowMapScale);
+		// the drawing buffer follows tier.renderScale
+		this.resize();
+	};
+
+	// Stills, PNG sequences and WebM recording; captures drive the frame clock themselves
+	setupCapture() {
+		if (!this._renderer) return;
+		const playground = this;
+		this._capture = new Capture({
+			renderer: this._renderer,
+			get camera() { return playground._camera; },
+			get postprocessing() { return playground._postprocessing; },
+			get time() { return playground._time; },
+			update: (time) => this.update(time),
+			draw: (time) => this.draw(time),
+			setLooping: (looping) => this.setLooping(looping),
+			restoreSize: () => this.resize(),
+		});
+	}
+
+	// Keyframes over Params, the camera position and light intensities, sampled in update()
+	setupTimeline() {
+		const playground = this;
+		this._timeline = new Timeline({
+			get camera() { return playground._camera; },
+			get lights() { return playground._power?.lights ?? []; },
+			setParams: (values) => this._postprocessing?.setParams(values),
+			refresh: () => this._debugPanel?.refresh(),
+		});
+	}
+
+	// Named camera poses with eased transitions, advanced in update()
+	setupBookmarks() {
+		const playground = this;
+		this._bookmarks = new CameraBookmarks({
+			get camera() { return playground._camera; },
+			get controls() { return playground._controls; },
+		});
+	}
+
+	// glTF models from public/models or dropped on the canvas, with their userData tags applied
+	setupSceneLoader(canvas: HTMLCanvasElement) {
+		const playground = this;
+		this._sceneLoader = new SceneLoader({
+			get scene() { return playground._scene; },
+			get camera() { return playground._camera; },
+			get controls() { return playground._controls; },
+			canvas,
+		});
+	}
+
+	// Swap in a camera of the other projection that frames the same view around the orbit target
+	setProjection(projection: Projection) {
+		const camera = this._camera as PerspectiveCamera & OrthographicCamera | null;
+		if (!camera || !this._controls) return;
+		if ((projection === 'orthographic') === Boolean(camera.isOrthographicCamera)) return;
+
+		const aspect = this._viewport.width / this._viewport.height;
+		const target = this._controls.target;
+		let next: PerspectiveCamera | OrthographicCamera;
+
+		if (projection === 'orthographic') {
+			// the frustum covers what the perspective camera sees at the target's distance
+			this._perspectiveFov = camera.fov;
+			const halfHeight = camera.position.distanceTo(target) * Math.tan(MathUtils.degToRad(camera.fov / 2));
+			next = new OrthographicCamera(-halfHeight * aspect, halfHeight * aspect, halfHeight, -halfHeight, camera.near, camera.far);
+			next.position.copy(camera.position);
+		} else {
+			// back at the distance where the perspective view covers the orthographic one
+			const halfHeight = camera.top / camera.zoom;
+			const distance = halfHeight / Math.tan(MathUtils.degToRad(this._perspectiveFov / 2));
+			next = new PerspectiveCamera(this._perspectiveFov, aspect, camera.near, camera.far);
+			next.position.copy(target).add(_offset.subVectors(camera.position, target).setLength(distance));
+		}
+		next.up.copy(camera.up);
+		next.lookAt(target);
+		next.updateMatrixWorld();
+
+		this._camera = next;
+		this._controls.object = next;
+		this._controls.update();
+		this._postprocessing?.setCamera(next);
+
+		// bindings point at the old camera
+		if (this._cameraFolder) this.setupCameraFolder();
+	}
+
+	// Projection, fov / zoom and position of the current camera; rebuilt in place when the camera changes
+	setupCameraFolder(parent = this._debugTab?.pages[0]) {
+		if (!parent) return;
+		let index: number | undefined;
+		let expanded = false;
+		if (this._cameraFolder) {
+			index = parent.children.indexOf(this._cameraFolder);
+			expanded = this._cameraFolder.expanded;
+			parent.remove(this._cameraFolder);
+		}
+		if (!this._camera) return;
+
+		const camFolder = this._cameraFolder = parent.addFolder({ title: "🎥 Camera Settings", expanded, index });
+		const projectionState = { projection: (this._camera as any).isOrthographicCamera ? 'orthographic' : 'perspective' };
+		camFolder.addBinding(projectionState, "projection", {
+			label: "Projection",
+			options: { Perspective: 'perspective', Orthographic: 'orthographic' },
+		}).on("change", (ev) => this.setProjection(ev.value as Projection));
+
+		if ((this._camera as any).isPerspectiveCamera) {
+			const cam = this._camera as PerspectiveCamera;
+			camFolder.addBinding(cam, "fov", {
+				label: "Field of View",
+				min: 10, max: 120, step: 1,
+			}).on("change", () => cam.updateProjectionMatrix());
+		}
+
+		if ((this._camera as any).isOrthographicCamera) {
+			const cam = this._camera as OrthographicCamera;
+			camFolder.addBinding(cam, "zoom", {
+				label: "Zoom",
+				min: 0.1, max: 5, step: 0.01,
+			}).on("change", () => cam.updateProjectionMatrix());
+		}
+
+		const posFolder = camFolder.addFolder({ title: "📍 Position", expanded: false });
+		posFolder.addBinding(this._camera.position, "x", { label: "X", min: -20, max: 20, step: 0.1 });
+		posFolder.addBinding(this._camera.position, "y", { label: "Y", min: -20, max: 20, step: 0.1 });
+		posFolder.addBinding(this._camera.position, "z", { label: "Z", min: -20, max: 20, step: 0.1 });
+	}
+
+	// Progress overlay for everything loaded through the asset manager
+	setupLoadingOverlay() {
+		this._loadingOverlay = new LoadingOverlay(assetManager);
+	}
+
 	// Configure the camera
 	setupCamera() {
-		this._camera = new PerspectiveCamera(80, this._viewport.width / this._viewport.height, 0.1, 1000);
+		this._camera = new PerspectiveCamera(this._perspectiveFov, this._viewport.width / this._viewport.height, 0.1, 1000);
 		this._camera.position.set(6, 4, 7);
 		this._camera.lookAt(0, 0, 0);
 	}
@@ -97,17 +288,18 @@ export default class Playground {
 		this._scene = new Scene();
 		this._scene.background = new Color(0x060606);
 
-		const loader = new TextureLoader();
-		loader.load('/envMap/EnvMap.png', (texture) => {
+		// no environment lighting when the map is missing; the scene still renders
+		assetManager.loadTexture('envMap', '/envMap/EnvMap.png').then((texture) => {
+			if (!texture || !this._renderer || !this._scene) return;
 			texture.mapping = EquirectangularReflectionMapping;
 
-			const pmremGenerator = new PMREMGenerator(this._renderer!);
+			const pmremGenerator = new PMREMGenerator(this._renderer);
 			pmremGenerator.compileEquirectangularShader();
 
 			const envMap = pmremGenerator.fromEquirectangular(texture).texture;
 
-			this._scene!.environment = envMap;
-			this._scene!.environmentIntensity = .1;
+			this._scene.environment = envMap;
+			this._scene.environmentIntensity = .1;
 
 			texture.dispose();
 			pmremGenerator.dispose();
@@ -127,13 +319,17 @@ export default class Playground {
 
 		this._renderer.setSize(this._viewport.width, this._viewport.height);
 		this._renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+
+		if (import.meta.env.DEV) this._leakBaseline = snapshotRenderer(this._renderer);
 	}
 
 	// Create and configure the mesh
 	setupPowers() {
-		this._power = new Power;
+		if (!this._sceneLoader) return;
+		this._power = new Power(this._sceneLoader);
 
 		this._scene?.add(this._power?.componentsGroup);
+		this._postprocessing?.setGodRaySources(this._power.lights);
 
 		console.log('scene', this._scene);
 
@@ -144,15 +340,20 @@ export default class Playground {
 		this._debugPanel = new PaneUtils().pane;
 		if (!this._debugPanel) return;
 
-		const tab = this._debugPanel.addTab({
+		const tab = this._debugTab = this._debugPanel.addTab({
 			pages: [
 				{ title: "🌐 Global Settings" },
 				{ title: "✨ PostProcessing" },
+				{ title: "📸 Capture" },
+				{ title: "🎬 Timeline" },
 			],
 		});
 
 		const globalTab = tab.pages[0];
 
+		// ⚡ Quality
+		this._quality?.setupDebugPanel(globalTab);
+
 		// 🌍 OrbitControls
 		const controlsFolder = globalTab.addFolder({ title: "🌀 Orbit Controls", expanded: false });
 		const controlsState = { active: true };
@@ -163,30 +364,13 @@ export default class Playground {
 		});
 
 		// 🎥 Camera
-		if (this._camera) {
-			const camFolder = globalTab.addFolder({ title: "🎥 Camera Settings", expanded: false });
-
-			if ((this._camera as any).isPerspectiveCamera) {
-				const cam = this._camera as PerspectiveCamera;
-				camFolder.addBinding(cam, "fov", {
-					label: "Field of View",
-					min: 10, max: 120, step: 1,
-				}).on("change", () => cam.updateProjectionMatrix());
-			}
+		this.setupCameraFolder(globalTab);
 
-			if ((this._camera as any).isOrthographicCamera) {
-				const cam = this._camera as OrthographicCamera;
-				camFolder.addBinding(cam, "zoom", {
-					label: "Zoom",
-					min: 0.1, max: 5, step: 0.01,
-				}).on("change", () => cam.updateProjectionMatrix());
-			}
+		// 📦 Scene
+		this._sceneLoader?.setupDebugPanel(globalTab.addFolder({ title: "📦 Scene", expanded: false }));
 
-			const posFolder = camFolder.addFolder({ title: "📍 Position", expanded: false });
-			posFolder.addBinding(this._camera.position, "x", { label: "X", min: -20, max: 20, step: 0.1 });
-			posFolder.addBinding(this._camera.position, "y", { label: "Y", min: -20, max: 20, step: 0.1 });
-			posFolder.addBinding(this._camera.position, "z", { label: "Z", min: -20, max: 20, step: 0.1 });
-		}
+		// 🔖 Bookmarks
+		this._bookmarks?.setupDebugPanel(globalTab.addFolder({ title: "🔖 Camera Bookmarks", expanded: false }));
 
 		// ✨ PostProcessing
 		if (this._postprocessing) {
@@ -195,9 +379,71 @@ export default class Playground {
 			// Let PostProcessing populate its own sub-folders
 			this._postprocessing.setupDebugPanel(ppTab);
 		}
+
+		// 📸 Capture
+		this._capture?.setupDebugPanel(tab.pages[2]);
+
+		// 🎬 Timeline
+		this._timeline?.setupDebugPanel(tab.pages[3]);
 	}
 
 
+	// Mirror the camera pose, post settings and open tab into the URL hash (restored by main.ts)
+	setupUrlState() {
+		const urlState = this._urlState = new UrlStateWriter(() => this.getSharedState());
+		this._debugPanel?.on('change', () => urlState.schedule());
+		this._debugTab?.on('select', () => urlState.schedule());
+		this._controls?.addEventListener('change', this._onControlsChange);
+	}
+
+	private _onControlsChange = () => this._urlState?.schedule();
+
+	// What a shared link reproduces; Params and flags only where they differ from the defaults
+	getSharedState(): SharedState | null {
+		if (!this._camera || !this._controls) return null;
+		const cam = this._camera as PerspectiveCamera & OrthographicCamera;
+		const preset = this._postprocessing
+			? diffPreset(this._postprocessing.exportPreset(), this._postprocessing.defaultPreset)
+			: { enabled: {}, order: [], params: {} };
+
+		return {
+			camera: {
+				projection: cam.isOrthographicCamera ? 'orthographic' : 'perspective',
+				position: this._camera.position.toArray(),
+				target: this._controls.target.toArray(),
+				fov: cam.isPerspectiveCamera ? cam.fov : undefined,
+				zoom: cam.isOrthographicCamera ? cam.zoom : undefined,
+			},
+			preset: { enabled: preset.enabled, order: preset.order, params: preset.params },
+			tab: this._debugTab?.pages.findIndex(page => page.selected) ?? 0,
+		};
+	}
+
+	// Restore a shared link; its own changes are not written back to the hash
+	applySharedState(state: SharedState) {
+		const apply = () => {
+			this.setProjection(state.camera.projection ?? 'perspective');
+			if (this._camera && this._controls) {
+				const cam = this._camera as PerspectiveCamera & OrthographicCamera;
+				this._camera.position.fromArray(state.camera.position);
+				this._controls.target.fromArray(state.camera.target);
+				if (cam.isPerspectiveCamera && state.camera.fov !== undefined) cam.fov = state.camera.fov;
+				if (cam.isOrthographicCamera && state.camera.zoom !== undefined) cam.zoom = state.camera.zoom;
+				cam.updateProjectionMatrix();
+				this._controls.update();
+			}
+
+			this._postprocessing?.applyPreset({ version: PRESET_VERSION, name: 'Shared', ...state.preset });
+
+			const page = this._debugTab?.pages[state.tab];
+			if (page) page.selected = true;
+			this._debugPanel?.refresh();
+		};
+
+		if (this._urlState) this._urlState.withoutWriting(apply);
+		else apply();
+	}
+
 	// Configure controls
 	setupControls() {
 		const canvas = document.querySelector("canvas");
@@ -227,11 +473,33 @@ export default class Playground {
 		);
 	}
 
-	render(time: number) {
+	render(rafTime: number) {
+		if (this._resumeClock) {
+			this._clockOffset = this._time - rafTime;
+			this._resumeClock = false;
+		}
+		const time = rafTime + this._clockOffset;
+
 		if (this._stats) this._stats.update();
+		if (this._quality) this._quality.update(time);
+		this.update(time);
+		this.draw(time);
+
+		this._frame = requestAnimationFrame(this.render.bind(this));
+	}
+
+	// Advance animation and controls to `time` (ms)
+	update(time: number) {
+		this._time = time;
 		if (this._power) this._power.render(time / 1000);
+		// keyed camera positions go through the controls, which orbit from there
+		if (this._timeline) this._timeline.update(time);
+		if (this._bookmarks) this._bookmarks.update(time);
 		if (this._controls) this._controls.update();
+	}
 
+	// Render the current state
+	draw(time: number) {
 		// Always call PostProcessing.render; it will bypass when disabled
 		if (this._postprocessing) {
 			this._postprocessing.render(time);
@@ -240,10 +508,20 @@ export default class Playground {
 			this._renderer.render(this._scene, this._camera);
 			// if (this._perf) this._perf.end();
 		}
+	}
+
+	// Pause or resume the render loop (captures render frames on their own schedule)
+	setLooping(looping: boolean) {
+		if (this._frame !== null) cancelAnimationFrame(this._frame);
+		this._frame = null;
+		if (!looping) return;
 
-		requestAnimationFrame(this.render.bind(this));
+		this._resumeClock = true;
+		this._frame = requestAnimationFrame(this.render.bind(this));
 	}
 
+	private _onResize = () => this.resize();
+
 	// Handle viewport resize
 	resize() {
 		this._viewport = {
@@ -251,6 +529,12 @@ export default class Playground {
 			height: window.innerHeight,
 		};
 
+		// pixel ratio first: the composer sizes its buffers from the drawing buffer
+		if (this._renderer) {
+			this._renderer.setSize(this._viewport.width, this._viewport.height);
+			this._renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2) * (this._quality?.tier.renderScale ?? 1));
+		}
+
 		this._postprocessing?.resize(this._viewport.width, this._viewport.height);
 
 		if (this._camera) {
@@ -260,21 +544,78 @@ export default class Playground {
 				perspectiveCamera.aspect = this._viewport.width / this._viewport.height;
 				perspectiveCamera.updateProjectionMatrix();
 			}
-			// Only OrthographicCamera has 'updateProjectionMatrix'
+			// OrthographicCamera has no 'aspect': keep the frustum height, widen or narrow it to the viewport
 			else if ('isOrthographicCamera' in this._camera && (this._camera as any).isOrthographicCamera) {
 				const orthoCamera = this._camera as OrthographicCamera;
-				// OrthographicCamera does not have 'aspect', but you may want to update left/right/top/bottom here if needed
+				const halfWidth = (orthoCamera.top - orthoCamera.bottom) / 2 * this._viewport.width / this._viewport.height;
+				orthoCamera.left = -halfWidth;
+				orthoCamera.right = halfWidth;
 				orthoCamera.updateProjectionMatrix();
 			}
 			this._camera.updateMatrixWorld();
 		}
+	}
+
+	// Dispose resources: stops the loop, detaches listeners and frees every GPU resource we created
+	dispose() {
+		if (this._frame !== null) cancelAnimationFrame(this._frame);
+		this._frame = null;
+		window.removeEventListener('resize', this._onResize);
+
+		this._capture?.dispose();
+		this._capture = undefined;
+
+		this._timeline?.dispose();
+		this._timeline = undefined;
+
+		this._urlState?.cancel();
+		this._urlState = null;
+
+		this._bookmarks?.dispose();
+		this._bookmarks = undefined;
+
+		this._sceneLoader?.dispose();
+		this._sceneLoader = undefined;
+
+		this._controls?.removeEventListener('change', this._onControlsChange);
+		this._controls?.dispose();
+		this._controls = null;
+
+		this._debugPanel?.dispose();
+		this._debugPanel = null;
+		this._debugTab = null;
+		this._cameraFolder = null;
+
+		this._postprocessing?.dispose();
+		this._postprocessing = undefined;
+
+		this._power?.dispose();
+		this._power = undefined;
+
+		if (this._stats) {
+			// stats-gl has no teardown of its own
+			window.removeEventListener('resize', this._stats['handleResize']);
+			this._stats.dom.remove();
+			this._stats = undefined;
+		}
+		this._quality = undefined;
+
+		this._loadingOverlay?.dispose();
+		this._loadingOverlay = null;
+		assetManager.dispose();
+
+		if (this._scene) {
+			this._scene.environment?.dispose();
+			this._scene.environment = null;
+			this._scene.clear();
+			this._scene = null;
+		}
 
 		if (this._renderer) {
-			this._renderer.setSize(this._viewport.width, this._viewport.height);
-			this._renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+			this._renderer.renderLists.dispose();
+			if (this._leakBaseline) reportLeaks('Playground', this._leakBaseline, snapshotRenderer(this._renderer));
+			this._renderer.dispose();
+			this._renderer = null;
 		}
 	}
-
-	// Dispose resources
-	dispose() { }
 }
@@ -1,4 +1,5 @@
 import App from './index.ts';
+import { decodeUrlState } from './UrlState.ts';
 
 import './style.scss';
 
@@ -20,11 +21,22 @@ const onMounted = () => {
 
   app = new App(canvas);
   app.render(0);
+  restoreSharedState();
+};
 
-  window.addEventListener("resize", () => {
-    if (!app) return;
-    app.resize();
-  });
+// shared links: the hash on load, or one pasted into the address bar later
+const restoreSharedState = async () => {
+  const state = await decodeUrlState(location.hash);
+  if (state) app?.applySharedState(state);
 };
 
-window.addEventListener('DOMContentLoaded', onMounted);
\ No newline at end of file
+window.addEventListener('DOMContentLoaded', onMounted);
+window.addEventListener('hashchange', restoreSharedState);
+
+// hot reload replaces this module: tear the old playground down first
+import.meta.hot?.dispose(() => {
+  window.removeEventListener('DOMContentLoaded', onMounted);
+  window.removeEventListener('hashchange', restoreSharedState);
+  app?.dispose();
+  app = null;
+});
\ No newline at end of file
@@ -0,0 +1,294 @@
+// BufferView.ts
+import { CopyPass, Pass, type BloomEffect } from "postprocessing";
+import { Camera, HalfFloatType, NoBlending, PerspectiveCamera, ShaderMaterial, Texture, Uniform, Vector2, WebGLRenderTarget, type OrthographicCamera, type WebGLRenderer } from "three";
+import type { EffectContext, EffectDefinition, HelperBuffer } from "./EffectRegistry";
+import type { TaggedBloomEffect } from "./TaggedBloomEffect";
+// @ts-ignore
+import fullscreenVertexShader from "/src/shaders/fullscreen.vert";
+// @ts-ignore
+import fragmentShader from "/src/shaders/bufferView.frag";
+
+export type BufferDecode = "color" | "normal" | "depth" | "alphaDepth" | "red";
+
+const DECODE_MODES: Record<BufferDecode, number> = { color: 0, normal: 1, depth: 2, alphaDepth: 3, red: 4 };
+
+export type BufferViewDefinition = {
+    label: string;
+    decode: BufferDecode;
+    requires?: HelperBuffer[];   // helper passes that must run for the buffer to exist
+    effect?: string;             // effect whose internal targets are shown; switched on while viewed
+    sources: (ctx: EffectContext, view: BufferViewPass) => (Texture | null | undefined)[];
+};
+
+/** Every buffer the View dropdown and the thumbnail strip can show, besides the chain output. */
+export const BUFFER_VIEWS: Record<string, BufferViewDefinition> = {
+    scene: {
+        label: "Scene Colour",
+        decode: "color",
+        sources: (_, view) => [view.sceneTexture],
+    },
+    depth: {
+        label: "Linear Depth",
+        decode: "depth",
+        sources: (_, view) => [view.depthTexture],
+    },
+    normal: {
+        label: "Normals",
+        decode: "normal",
+        requires: ["normal"],
+        sources: (ctx) => [ctx.helpers.normalPass?.texture],
+    },
+    normalDepthNormal: {
+        label: "Downsampled Normals",
+        decode: "normal",
+        requires: ["normalDepth"],
+        sources: (ctx) => [ctx.helpers.depthDownPass?.texture],
+    },
+    normalDepthDepth: {
+        label: "Downsampled Depth",
+        decode: "alphaDepth",
+        requires: ["normalDepth"],
+        sources: (ctx) => [ctx.helpers.depthDownPass?.texture],
+    },
+    ssao: {
+        label: "SSAO Term",
+        decode: "red",
+        effect: "ssao",
+        // the AO target is internal to SSAOEffect
+        sources: (ctx) => [(ctx.manager.getEffect("ssao") as unknown as { renderTarget?: WebGLRenderTarget } | undefined)?.renderTarget?.texture],
+    },
+    bloomSelection: {
+        label: "Bloom Selection",
+        decode: "color",
+        effect: "bloom",
+        sources: (ctx) => [ctx.manager.getEffect<TaggedBloomEffect>("bloom")?.selectionTexture],
+    },
+    bloomLuminance: {
+        label: "Bloom Bright-pass",
+        decode: "color",
+        effect: "bloom",
+        sources: (ctx) => [ctx.manager.getEffect<BloomEffect>("bloom")?.luminancePass.texture],
+    },
+    bloomMips: {
+        label: "Bloom Mips",
+        decode: "color",
+        effect: "bloom",
+        // internal to MipmapBlurPass: the downsampled levels, largest first
+        sources: (ctx) => {
+            const blur = ctx.manager.getEffect<BloomEffect>("bloom")?.mipmapBlurPass as unknown as { downsamplingMipmaps?: WebGLRenderTarget[] } | undefined;
+            return blur?.downsamplingMipmaps?.map(target => target.texture) ?? [];
+        },
+    },
+};
+
+/** View dropdown entries: the chain output, every buffer, then each effect alone on the scene. */
+export function bufferViewOptions(definitions: EffectDefinition<any>[]): { text: string; value: string }[] {
+    return [
+        { text: "Final", value: "final" },
+        ...Object.entries(BUFFER_VIEWS).map(([key, view]) => ({ text: view.label, value: key })),
+        ...definitions.map(d => ({ text: `Effect: ${d.title}`, value: `effect:${d.key}` })),
+    ];
+}
+
+export type ViewRect = { x: number; y: number; width: number; height: number };
+
+/** Thumbnail tiles along the bottom edge, bottom-left origin like the renderer viewport. */
+export function thumbnailRects(count: number, width: number, height: number): ViewRect[] {
+    const tileWidth = Math.min(width / Math.max(count, 1), width / 6);
+    const tileHeight = tileWidth * height / width;
+    return Array.from({ length: count }, (_, i) => ({ x: i * tileWidth, y: 0, width: tileWidth, height: tileHeight }));
+}
+
+function gridRects(count: number, width: number, height: number): ViewRect[] {
+    const columns = Math.ceil(Math.sqrt(count));
+    const rows = Math.ceil(count / columns);
+    const tileWidth = width / columns;
+    const tileHeight = height / rows;
+    return Array.from({ length: count }, (_, i) => ({
+        x: (i % columns) * tileWidth,
+        y: height - (Math.floor(i / columns) + 1) * tileHeight,
+        width: tileWidth,
+        height: tileHeight,
+    }));
+}
+
+/**
+ * Last pass of the debug view chain: draws the selected buffer (or the chain
+ * output for "final") and optionally a thumbnail strip of every buffer.
+ * `sceneCopy` has to run right after the RenderPass for the scene colour view.
+ */
+export class BufferViewPass extends Pass {
+    // half float like the composer buffers, so the HDR scene is not clipped before display
+    public readonly sceneCopy = new CopyPass(new WebGLRenderTarget(1, 1, { type: HalfFloatType, depthBuffer: false }));
+    public depthTexture: Texture | null = null;
+
+    public view = "final";
+    public thumbnails: string[] = [];
+    public depthRange = 30;
+
+    private _material: ShaderMaterial;
+    private _camera: Camera;
+    private _context: EffectContext;
+    private _size = new Vector2();
+
+    constructor(camera: Camera, context: EffectContext) {
+        super("BufferViewPass");
+        this.needsSwap = false;
+        this.needsDepthTexture = true;
+
+        this._camera = camera;
+        this._context = context;
+
+        this._material = new ShaderMaterial({
+            name: "BufferViewMaterial",
+            uniforms: {
+                tMap: new Uniform(null),
+                uDecode: new Uniform(0),
+                uPerspective: new Uniform(true),
+                uCameraNearFar: new Uniform(new Vector2(0.1, 1000)),
+                uDepthRange: new Uniform(this.depthRange),
+            },
+            vertexShader: fullscreenVertexShader,
+            fragmentShader,
+            blending: NoBlending,
+            toneMapped: false,
+            depthWrite: false,
+            depthTest: false,
+        });
+        this.fullscreenMaterial = this._material;
+    }
+
+    set mainCamera(camera: Camera) {
+        this._camera = camera;
+    }
+
+    get sceneTexture(): Texture {
+        return this.sceneCopy.texture;
+    }
+
+    setDepthTexture(depthTexture: Texture | null) {
+        this.depthTexture = depthTexture;
+    }
+
+    render(renderer: WebGLRenderer, inputBuffer: WebGLRenderTarget | null, outputBuffer: WebGLRenderTarget | null) {
+        const camera = this._camera as PerspectiveCamera | OrthographicCamera;
+        const uniforms = this._material.uniforms;
+        uniforms.uPerspective.value = Boolean((camera as PerspectiveCamera).isPerspectiveCamera);
+        (uniforms.uCameraNearFar.value as Vector2).set(camera.near, camera.far);
+        uniforms.uDepthRange.value = this.depthRange;
+
+        renderer.setRenderTarget(this.renderToScreen ? null : outputBuffer);
+        const { x: width, y: height } = renderer.getSize(this._size);
+
+        const definition = BUFFER_VIEWS[this.view];
+        const main = definition ? this._sources(definition) : [inputBuffer?.texture ?? null];
+        gridRects(main.length, width, height).forEach((rect, i) => this._draw(renderer, main[i], definition?.decode ?? "color", rect));
+
+        const tiles = thumbnailRects(this.thumbnails.length, width, height);
+        this.thumbnails.forEach((key, i) => {
+            const thumbnail = BUFFER_VIEWS[key];
+            // multi-texture buffers (mips) show their first level
+            if (thumbnail) this._draw(renderer, this._sources(thumbnail)[0] ?? null, thumbnail.decode, tiles[i]);
+        });
+
+        renderer.setViewport(0, 0, width, height);
+    }
+
+    private _sources(definition: BufferViewDefinition): (Texture | null)[] {
+        const sources = definition.sources(this._context, this).map(texture => texture ?? null);
+        return sources.length ? sources : [null];
+    }
+
+    // a buffer not produced in this build (null) samples as black
+    private _draw(renderer: WebGLRenderer, texture: Texture | null, decode: BufferDecode, rect: ViewRect) {
+        renderer.setViewport(rect.x, rect.y, rect.width, rect.height);
+        this._material.uniforms.tMap.value = texture;
+        this._material.uniforms.uDecode.value = DECODE_MODES[decode];
+        renderer.render(this.scene, this.camera);
+    }
+
+    dispose() {
+        super.dispose();
+        this.sceneCopy.dispose();
+    }
+}
+
+/**
+ * Clickable labels over the thumbnail strip; the tiles themselves are drawn
+ * by BufferViewPass with the same layout.
+ */
+export class BufferStripLabels {
+    public readonly element: HTMLDivElement;
+
+    private _onSelect: (key: string) => void;
+    private _keys: string[] = [];
+
+    constructor(onSelect: (key: string) => void, parent: HTMLElement = document.body) {
+        this._onSelect = onSelect;
+
+        this.element = document.createElement("div");
+        Object.assign(this.element.style, {
+            position: "fixed",
+            pointerEvents: "none",
+            display: "none",
+            zIndex: "10",
+            font: "10px/1.2 monospace",
+            color: "#fff",
+        });
+        parent.appendChild(this.element);
+    }
+
+    public update(keys: string[], selected: string, rect: DOMRect): void {
+        Object.assign(this.element.style, {
+            display: keys.length ? "block" : "none",
+            left: `${rect.left}px`,
+            top: `${rect.top}px`,
+            width: `${rect.width}px`,
+            height: `${rect.height}px`,
+        });
+
+        if (keys.join() !== this._keys.join()) {
+            this._keys = [...keys];
+            this.element.replaceChildren(...keys.map(key => this._createTile(key)));
+        }
+
+        const tiles = thumbnailRects(keys.length, rect.width, rect.height);
+        [...this.element.children].forEach((child, i) => {
+            const tile = child as HTMLDivElement;
+            Object.assign(tile.style, {
+                left: `${tiles[i].x}px`,
+                bottom: `${tiles[i].y}px`,
+                width: `${tiles[i].width}px`,
+                height: `${tiles[i].height}px`,
+                outline: keys[i] === selected ? "1px solid #fff" : "1px solid rgba(255,255,255,0.2)",
+            });
+        });
+    }
+
+    public hide(): void {
+        this.element.style.display = "none";
+    }
+
+    public dispose(): void {
+        this.element.remove();
+    }
+
+    private _createTile(key: string): HTMLDivElement {
+        const tile = document.createElement("div");
+        Object.assign(tile.style, {
+            position: "absolute",
+            boxSizing: "border-box",
+            outlineOffset: "-1px",
+            cursor: "pointer",
+            pointerEvents: "auto",
+        });
+
+        const label = document.createElement("span");
+        label.textContent = BUFFER_VIEWS[key]?.label ?? key;
+        Object.assign(label.style, { padding: "1px 4px", background: "rgba(0,0,0,0.6)" });
+
+        tile.appendChild(label);
+        tile.addEventListener("click", () => this._onSelect(key));
+        return tile;
+    }
+}
@@ -0,0 +1,477 @@
+// BuiltinEffects.ts
+import { BlendFunction, BloomEffect, BrightnessContrastEffect, DepthOfFieldEffect, EdgeDetectionMode, Effect, FXAAEffect, LensDistortionEffect, LookupTexture, LUT3DEffect, OutlineEffect, SepiaEffect, SMAAEffect, SSAOEffect } from "postprocessing";
+import { Color, Vector4, type DepthPackingStrategies, type WebGLRenderTarget } from "three";
+import { sceneTags, TAG_LAYERS } from "../SceneTags";
+import { ExclusionMask } from "./ExclusionMask";
+import { Params } from "./Constants";
+import { DepthOfFieldFocus, type FocusMode } from "./DepthOfFieldFocus";
+import type { CaptureRegion, EffectContext, EffectDefinition } from "./EffectRegistry";
+import { ExposureToneMappingEffect, type ToneMappingOperator } from "./ExposureToneMappingEffect";
+import { pickFile } from "./FileUtils";
+import { FinalEffect, type GrainMode } from "./FinalEffect";
+import { FrameVignetteEffect } from "./FrameVignetteEffect";
+import { LensFlareEffect } from "./LensFlareEffect";
+import { LUT_FILES } from "./LUTUtils";
+import { MotionBlurEffect } from "./MotionBlurEffect";
+import { RadialChromaticAberrationEffect } from "./RadialChromaticAberrationEffect";
+import { RetroEffect, type DitherMode } from "./RetroEffect";
+import { SSREffect } from "./SSREffect";
+import { TaggedBloomEffect, type BloomMode } from "./TaggedBloomEffect";
+
+export const BLEND_FUNCTIONS: Record<string, BlendFunction> = {
+    NORMAL: BlendFunction.NORMAL,
+    SCREEN: BlendFunction.SCREEN,
+    ADD: BlendFunction.ADD,
+    MULTIPLY: BlendFunction.MULTIPLY,
+    OVERLAY: BlendFunction.OVERLAY,
+    SOFT_LIGHT: BlendFunction.SOFT_LIGHT,
+};
+
+const LENS_GROUP = "🔍 Lens";
+
+// focus controller per DoF instance (the effect has nowhere to keep it)
+const _dofFocus = new WeakMap<DepthOfFieldEffect, DepthOfFieldFocus>();
+// per SSAO / SSR instance: clears the effect on meshes tagged noSSAO / noSSR / isGlass
+const _exclusionMasks = new WeakMap<SSAOEffect | SSREffect, ExclusionMask>();
+// per Outline instance: stops following the outline tag
+const _outlineUnsubscribe = new WeakMap<OutlineEffect, () => void>();
+
+/** Runs the exclusion mask right after the effect renders its AO buffer, while tagged meshes are in the scene. */
+function createSSAO(effect: SSAOEffect, ctx: EffectContext): SSAOEffect {
+    // AO buffer: 1 = unoccluded
+    const mask = new ExclusionMask(TAG_LAYERS.noSSAO, new Vector4(1, 1, 1, 1));
+    _exclusionMasks.set(effect, mask);
+    // the AO buffer is not in the typings
+    const target = (effect as unknown as { renderTarget: WebGLRenderTarget }).renderTarget;
+    const update = effect.update.bind(effect);
+    effect.update = (renderer, inputBuffer, deltaTime) => {
+        update(renderer, inputBuffer, deltaTime);
+        if (sceneTags.count("noSSAO")) mask.render(renderer, ctx.scene, ctx.camera, target, effect.ssaoMaterial.depthBuffer, Number(effect.ssaoMaterial.defines.DEPTH_PACKING) as DepthPackingStrategies);
+    };
+    return effect;
+}
+
+/** Same for the reflection buffer: tagged meshes get no reflection. */
+function createSSR(effect: SSREffect, ctx: EffectContext): SSREffect {
+    // reflection buffer: zero confidence = no reflection
+    const mask = new ExclusionMask(TAG_LAYERS.noSSR, new Vector4(0, 0, 0, 0));
+    _exclusionMasks.set(effect, mask);
+    const update = effect.update.bind(effect);
+    effect.update = (renderer, inputBuffer) => {
+        update(renderer, inputBuffer);
+        if (sceneTags.count("noSSR")) mask.render(renderer, ctx.scene, ctx.camera, effect.reflectionTarget, effect.depthTexture, effect.depthPacking);
+    };
+    return effect;
+}
+
+/** Barrel (> 0) / pincushion (< 0) distortion, zoomed so barrel never samples outside the frame. */
+function applyLensDistortion(effect: LensDistortionEffect, k: number) {
+    const fit = 1 / (1 + Math.max(k, 0) * 2);
+    effect.distortion.set(k, k);
+    effect.focalLength.set(fit, fit);
+}
+
+/** A render of part of the frame: effects that need the pixels of other tiles cannot run there. */
+const isTile = (region: CaptureRegion | null) => region !== null && (region.width < 1 || region.height < 1);
+
+// keeps E inferred from create so param callbacks are typed
+const define = <E extends Effect>(definition: EffectDefinition<E>): EffectDefinition<E> => definition;
+
+export const BUILTIN_EFFECTS: EffectDefinition<any>[] = [
+    define({
+        key: "smaa",
+        title: "🎯 SMAA",
+        order: 10,
+        create: (ctx) => {
+            const searchImage = ctx.assets["smaa-search"];
+            const areaImage = ctx.assets["smaa-area"];
+            // SMAA cannot run without its lookup images; FXAA needs none
+            if (!searchImage || !areaImage) return new FXAAEffect();
+
+            return new SMAAEffect({
+                preset: ctx.quality.smaaPreset,
+                edgeDetectionMode: EdgeDetectionMode.COLOR,
+                ...{ searchImage, areaImage }
+            });
+        },
+        quality: (e, q) => { if (e instanceof SMAAEffect) e.applyPreset(q.smaaPreset); },
+    }),
+
+    define({
+        key: "ssr",
+        title: "🪞 SSR",
+        order: 20,
+        requires: ["normal", "normalDepth"],
+        create: (ctx) => createSSR(new SSREffect(ctx.camera, {
+            normalBuffer: ctx.helpers.normalPass.texture,
+            normalDepthBuffer: ctx.helpers.depthDownPass?.texture ?? null,
+            resolutionScale: 0.5
+        }), ctx),
+        dispose: (effect) => { _exclusionMasks.get(effect)?.dispose(); },
+        params: [
+            { key: "ssrIntensity", label: "Intensity", type: "number", min: 0, max: 1, step: 0.01, apply: (e, v) => { e.intensity = v; } },
+            { key: "ssrMaxDistance", label: "Max Distance", type: "number", min: 0.5, max: 30, step: 0.1, apply: (e, v) => { e.maxDistance = v; } },
+            { key: "ssrThickness", label: "Thickness", type: "number", min: 0.01, max: 1, step: 0.005, apply: (e, v) => { e.thickness = v; } },
+            { key: "ssrSteps", label: "Steps", type: "number", min: 8, max: 128, step: 1, apply: (e, v) => { e.steps = v; } },
+            { key: "ssrRoughness", label: "Roughness", type: "number", min: 0, max: 1, step: 0.01, apply: (e, v) => { e.roughness = v; } },
+            { key: "ssrBlur", label: "Blur", type: "number", min: 0, max: 0.1, step: 0.001, apply: (e, v) => { e.blur = v; } },
+        ],
+    }),
+
+    define({
+        key: "ssao",
+        title: "👻 SSAO",
+        order: 30,
+        requires: ["normal", "normalDepth"],
+        create: (ctx) => createSSAO(new SSAOEffect(ctx.camera, ctx.helpers.normalPass.texture, {
+            blendFunction: BlendFunction.MULTIPLY,
+            distanceScaling: true,
+            depthAwareUpsampling: true,
+            normalDepthBuffer: ctx.helpers.depthDownPass?.texture,
+            samples: ctx.quality.ssaoSamples,
+            rings: ctx.quality.ssaoRings,
+            distanceThreshold: 0.02,
+            distanceFalloff: 0.0025,
+            rangeThreshold: 0.0003,
+            rangeFalloff: 0.0001,
+            luminanceInfluence: 0.7,
+            minRadiusScale: 0.33,
+            bias: Params.ssaoBias,
+            fade: 0.01,
+            resolutionScale: ctx.quality.ssaoResolutionScale
+        }), ctx),
+        dispose: (effect) => { _exclusionMasks.get(effect)?.dispose(); },
+        params: [
+            { key: "ssaoOpacity", label: "Opacity", type: "number", min: 0, max: 1, step: 0.01, apply: (e, v) => { e.blendMode.opacity.value = v; } },
+            { key: "ssaoIntensity", label: "Intensity", type: "number", min: 0, max: 4, step: 0.01, apply: (e, v) => { e.intensity = v; } },
+            { key: "ssaoRadius", label: "Radius", type: "number", min: 0.01, max: 1, step: 0.005, apply: (e, v) => { e.radius = v; } },
+        ],
+        // the radius is relative to the render size: a tile showing part of the frame needs it larger
+        capture: (e, r) => { e.radius = Params.ssaoRadius / (r ? Math.sqrt(r.width * r.height) : 1); },
+        quality: (e, q) => {
+            e.ssaoMaterial.samples = q.ssaoSamples;
+            e.ssaoMaterial.rings = q.ssaoRings;
+            e.resolution.scale = q.ssaoResolutionScale;
+        },
+    }),
+
+    define({
+        key: "dof",
+        title: "🔭 Depth of Field",
+        order: 40,
+        enabled: false,
+        requires: ["depthPicking"],
+        create: (ctx) => {
+            const effect = new DepthOfFieldEffect(ctx.camera, { resolutionScale: 0.5 });
+            _dofFocus.set(effect, new DepthOfFieldFocus({
+                scene: ctx.scene,
+                camera: ctx.camera,
+                canvas: ctx.renderer.domElement,
+                depthPicking: ctx.helpers.depthPickingPass
+            }));
+            return effect;
+        },
+        // a rebuild may drop the depth picking pass a pending centre read waits on
+        onBuild: (effect) => { _dofFocus.get(effect)?.cancelAutoFocus(); },
+        update: (effect, deltaTime) => { if (effect) _dofFocus.get(effect)?.update(effect, deltaTime); },
+        camera: (effect, camera) => { _dofFocus.get(effect)!.camera = camera; },
+        dispose: (effect) => { _dofFocus.get(effect)?.dispose(); },
+        params: [
+            {
+                key: "dofFocusMode", label: "Focus Mode", type: "options",
+                options: { Manual: "MANUAL", "Auto (centre)": "AUTO", "Click to focus": "PICK" },
+                apply: (e, v) => { _dofFocus.get(e)!.mode = v as FocusMode; }
+            },
+            { key: "dofFocusDistance", label: "Focus Distance", type: "number", min: 0.1, max: 50, step: 0.01, apply: (e, v) => { _dofFocus.get(e)!.focusDistance = v; } },
+            { key: "dofFocalLength", label: "Focal Length (mm)", type: "number", min: 12, max: 200, step: 1, apply: (e, v) => { _dofFocus.get(e)!.focalLength = v; } },
+            { key: "dofAperture", label: "Aperture (f/)", type: "number", min: 1, max: 22, step: 0.1, apply: (e, v) => { _dofFocus.get(e)!.aperture = v; } },
+            { key: "dofBokehScale", label: "Bokeh Scale", type: "number", min: 0, max: 10, step: 0.1, apply: (e, v) => { e.bokehScale = v; } },
+            { key: "dofFocusSpeed", label: "Focus Speed", type: "number", min: 0.5, max: 20, step: 0.1, apply: (e, v) => { _dofFocus.get(e)!.smoothing = v; } },
+        ],
+    }),
+
+    define({
+        key: "motionBlur",
+        title: "💨 Motion Blur",
+        order: 50,
+        enabled: false,
+        requires: ["velocity"],
+        create: (ctx) => new MotionBlurEffect({ velocityBuffer: ctx.helpers.velocityPass.texture }),
+        params: [
+            { key: "motionBlurShutterAngle", label: "Shutter Angle", type: "number", min: 0, max: 360, step: 1, apply: (e, v) => { e.shutterAngle = v; } },
+            { key: "motionBlurSamples", label: "Samples", type: "number", min: 2, max: 32, step: 1, apply: (e, v) => { e.samples = v; } },
+            { key: "motionBlurDebug", label: "Show Velocity", type: "boolean", apply: (e, v) => { e.debugVelocity = v; } },
+        ],
+    }),
+
+    define({
+        key: "lensDistortion",
+        title: "Distortion",
+        group: LENS_GROUP,
+        order: 60,
+        enabled: false,
+        create: () => new LensDistortionEffect(),
+        params: [
+            { key: "lensDistortion", label: "Barrel / Pincushion", type: "number", min: -0.5, max: 0.5, step: 0.001, apply: (e, v) => applyLensDistortion(e, v) },
+        ],
+        // samples move further than the tile padding: off for tiled captures
+        capture: (e, r) => applyLensDistortion(e, isTile(r) ? 0 : Params.lensDistortion),
+    }),
+
+    define({
+        key: "chromaticAberration",
+        title: "Chromatic Aberration",
+        group: LENS_GROUP,
+        order: 65,
+        enabled: false,
+        create: () => new RadialChromaticAberrationEffect(),
+        params: [
+            { key: "caStrength", label: "Strength", type: "number", min: 0, max: 0.03, step: 0.0001, apply: (e, v) => { e.strength = v; } },
+            { key: "caFalloff", label: "Edge Falloff", type: "number", min: 0.5, max: 4, step: 0.01, apply: (e, v) => { e.falloff = v; } },
+        ],
+        capture: (e, r) => e.setViewRegion(r),
+    }),
+
+    define({
+        key: "bloom",
+        title: "🌸 Bloom",
+        order: 70,
+        create: (ctx) => new TaggedBloomEffect(ctx.scene, ctx.camera, {
+            blendFunction: BlendFunction.ADD,
+            luminanceSmoothing: 0.01,
+            mipmapBlur: true,
+            layer: TAG_LAYERS.bloom,
+            mode: Params.bloomMode as BloomMode,
+        }),
+        params: [
+            {
+                key: "bloomMode", label: "Mode", type: "options",
+                options: { Threshold: "THRESHOLD", "Selective (Tagged)": "SELECTIVE" },
+                apply: (e, v) => { e.mode = v as BloomMode; }
+            },
+            { key: "threshold", label: "Threshold", type: "number", min: 0, max: 1, step: 0.01, apply: (e, v) => { e.luminanceMaterial.threshold = v; } },
+            { key: "strength", label: "Intensity", type: "number", min: 0, max: 20, step: 0.1, apply: (e, v) => { e.intensity = v; } },
+            { key: "radius", label: "Radius / Resolution", type: "number", min: 0.1, max: 2, step: 0.01, apply: (e, v, ctx) => { e.resolution.scale = v * ctx.quality.bloomResolutionScale; } },
+        ],
+        quality: (e, q) => { e.resolution.scale = Params.radius * q.bloomResolutionScale; },
+    }),
+
+    define({
+        key: "outline",
+        title: "🖍️ Outline",
+        order: 75,
+        // follows the meshes tagged `outline`; nothing to draw without them
+        create: (ctx) => {
+            const effect = new OutlineEffect(ctx.scene, ctx.camera, {
+                blendFunction: BlendFunction.SCREEN,
+                edgeStrength: Params.outlineStrength,
+                xRay: Params.outlineXRay,
+                multisampling: 0,
+            });
+            effect.selection.set(sceneTags.objects("outline"));
+            _outlineUnsubscribe.set(effect, sceneTags.onChange(() => effect.selection.set(sceneTags.objects("outline"))));
+            return effect;
+        },
+        dispose: (effect) => { _outlineUnsubscribe.get(effect)?.(); },
+        params: [
+            { key: "outlineStrength", label: "Strength", type: "number", min: 0, max: 10, step: 0.1, apply: (e, v) => { e.edgeStrength = v; } },
+            { key: "outlineColor", label: "Visible Edge", type: "color", apply: (e, v) => { e.visibleEdgeColor.setRGB(v.r, v.g, v.b); } },
+            { key: "outlineHiddenColor", label: "Hidden Edge", type: "color", apply: (e, v) => { e.hiddenEdgeColor.setRGB(v.r, v.g, v.b); } },
+            { key: "outlineXRay", label: "X-Ray", type: "boolean", apply: (e, v) => { e.xRay = v; } },
+        ],
+    }),
+
+    // one GodRaysEffect per selected light, see PostProcessingManager.setGodRaySources
+    define<Effect>({
+        key: "godRays",
+        title: "☀️ God Rays",
+        order: 80,
+        enabled: false,
+        resolve: (_, ctx) => ctx.godRaySources.filter(source => source.params.enabled).map(source => source.effect),
+        update: (_, __, ctx) => ctx.godRaySources.forEach(source => source.update()),
+        panel: (folder, ctx) => {
+            ctx.godRaySources.forEach(source => {
+                const sourceFolder = folder.addFolder({ title: source.label, expanded: false });
+                sourceFolder.addBinding(source.params, "enabled", { label: "Source" })
+                    .on("change", () => ctx.manager.rebuild());
+                sourceFolder.addBinding(source.params, "density", { label: "Density", min: 0, max: 1, step: 0.001 })
+                    .on("change", () => source.applyParams());
+                sourceFolder.addBinding(source.params, "decay", { label: "Decay", min: 0, max: 1, step: 0.001 })
+                    .on("change", () => source.applyParams());
+                sourceFolder.addBinding(source.params, "weight", { label: "Weight", min: 0, max: 1, step: 0.001 })
+                    .on("change", () => source.applyParams());
+                sourceFolder.addBinding(source.params, "exposure", { label: "Exposure", min: 0, max: 2, step: 0.001 })
+                    .on("change", () => source.applyParams());
+            });
+        },
+    }),
+
+    // flare reuses the bloom bright-pass
+    define({
+        key: "lensFlare",
+        title: "Flare",
+        group: LENS_GROUP,
+        order: 85,
+        enabled: false,
+        create: (ctx) => new LensFlareEffect({ brightPass: ctx.getEffect<BloomEffect>("bloom")!.luminancePass }),
+        // the flare needs the bright-pass even when bloom is off
+        onBuild: (effect, ctx) => { effect.renderBrightPass = !ctx.isEnabled("bloom"); },
+        params: [
+            { key: "flareIntensity", label: "Intensity", type: "number", min: 0, max: 4, step: 0.01, apply: (e, v) => { e.intensity = v; } },
+            { key: "flareGhosts", label: "Ghosts", type: "number", min: 1, max: 8, step: 1, apply: (e, v) => { e.ghosts = v; } },
+            { key: "flareGhostDispersal", label: "Ghost Dispersal", type: "number", min: 0, max: 1, step: 0.01, apply: (e, v) => { e.ghostDispersal = v; } },
+            { key: "flareHaloWidth", label: "Halo Width", type: "number", min: 0, max: 1, step: 0.01, apply: (e, v) => { e.haloWidth = v; } },
+            { key: "flareHaloIntensity", label: "Halo Intensity", type: "number", min: 0, max: 2, step: 0.01, apply: (e, v) => { e.haloIntensity = v; } },
+            { key: "flareChromatic", label: "Chromatic", type: "number", min: 0, max: 0.02, step: 0.0001, apply: (e, v) => { e.chromaticDistortion = v; } },
+        ],
+        // ghosts mirror the whole frame through its centre, which no tile holds: off for tiled captures
+        capture: (e, r) => { e.intensity = isTile(r) ? 0 : Params.flareIntensity; },
+    }),
+
+    define({
+        key: "vignette",
+        title: "🌑 Vignette",
+        order: 90,
+        create: () => new FrameVignetteEffect({
+            eskil: true,
+            offset: 0.2,
+            darkness: 1.,
+            blendFunction: BlendFunction.NORMAL
+        }),
+        capture: (e, r) => e.setViewRegion(r),
+    }),
+
+    define({
+        key: "toneMapping",
+        title: "🎞️ Tone Mapping",
+        order: 100,
+        enabled: false,
+        create: () => new ExposureToneMappingEffect(),
+        params: [
+            {
+                key: "toneMappingOperator", label: "Operator", type: "options",
+                options: { ACES: "ACES", AgX: "AGX", Reinhard: "REINHARD", Uncharted2: "UNCHARTED2", Neutral: "NEUTRAL" },
+                apply: (e, v) => { e.operator = v as ToneMappingOperator; }
+            },
+            { key: "toneMappingExposure", label: "Exposure (EV)", type: "number", min: -4, max: 4, step: 0.01, apply: (e, v) => { e.exposureCompensation = v; } },
+            { key: "autoExposure", label: "Auto Exposure", type: "boolean", apply: (e, v) => { e.autoExposure = v; } },
+            { key: "autoExposureMinLuminance", label: "Min Luminance", type: "number", min: 0.001, max: 1, step: 0.001, apply: (e, v) => { e.minLuminance = v; } },
+            { key: "autoExposureMaxLuminance", label: "Max Luminance", type: "number", min: 0.001, max: 1, step: 0.001, apply: (e, v) => { e.maxLuminance = v; } },
+            { key: "autoExposureSpeed", label: "Adaptation Speed", type: "number", min: 0.1, max: 10, step: 0.1, apply: (e, v) => { e.adaptationRate = v; } },
+            { key: "autoExposureMiddleGrey", label: "Middle Grey", type: "number", min: 0.01, max: 1, step: 0.01, apply: (e, v) => { e.middleGrey = v; } },
+        ],
+    }),
+
+    define({
+        key: "lut",
+        title: "🎨 LUT",
+        order: 110,
+        enabled: false,
+        create: () => new LUT3DEffect(LookupTexture.createNeutral(2), { blendFunction: BlendFunction.NORMAL }),
+        // the lookup texture lives in a uniform, which Effect.dispose leaves alone
+        dispose: (effect) => { effect.lut.dispose(); },
+        params: [
+            { key: "lutFile", label: "File", type: "options", options: LUT_FILES, apply: (_, v, ctx) => { ctx.manager.loadLUT(v); } },
+            { key: "lutIntensity", label: "Intensity", type: "number", min: 0, max: 1, step: 0.01, apply: (e, v) => { e.blendMode.opacity.value = v; } },
+            { key: "lutBakeSize", label: "Bake Size", type: "options", options: { "17": 17, "33": 33, "65": 65 } },
+        ],
+        panel: (folder, ctx) => {
+            folder.addBinding(ctx.manager.lutState, "name", { label: "Loaded", readonly: true });
+            folder.addButton({ title: "Export grade as .cube" })
+                .on("click", () => ctx.manager.exportGradeAsCube());
+        },
+    }),
+
+    define({
+        key: "retro",
+        title: "👾 Retro",
+        order: 130,
+        enabled: false,
+        create: () => new RetroEffect(),
+        params: [
+            { key: "retroPixelate", label: "Enable", folder: "Pixelation", type: "boolean", apply: (e, v) => { e.pixelate = v; } },
+            { key: "retroPixelSize", label: "Pixel Size", folder: "Pixelation", type: "number", min: 1, max: 32, step: 1, apply: (e, v) => { e.pixelSize = v; } },
+            { key: "retroDither", label: "Enable", folder: "Dithering", type: "boolean", apply: (e, v) => { e.dither = v; } },
+            {
+                key: "retroDitherMode", label: "Pattern", folder: "Dithering", type: "options",
+                options: { "Ordered (Bayer)": "BAYER", "Blue Noise": "BLUE_NOISE" },
+                apply: (e, v) => { e.ditherMode = v as DitherMode; }
+            },
+            { key: "retroDitherStrength", label: "Strength", folder: "Dithering", type: "number", min: 0, max: 2, step: 0.01, apply: (e, v) => { e.ditherStrength = v; } },
+            { key: "retroColorLevels", label: "Levels (no palette)", folder: "Dithering", type: "number", min: 2, max: 32, step: 1, apply: (e, v) => { e.colorLevels = v; } },
+            { key: "retroPalette", label: "Enable", folder: "Palette", type: "boolean", apply: (e, v) => { e.palette = v; } },
+            {
+                key: "retroPaletteName", label: "Palette", folder: "Palette", type: "options",
+                options: { "Game Boy": "GAMEBOY", CGA: "CGA", "PICO-8": "PICO8", "From Image": "CUSTOM" },
+                apply: (_, v, ctx) => ctx.manager.setRetroPalette(v)
+            },
+            { key: "retroCRT", label: "Enable", folder: "CRT", type: "boolean", apply: (e, v) => { e.crt = v; } },
+            { key: "retroScanlines", label: "Scanlines", folder: "CRT", type: "number", min: 0, max: 1, step: 0.01, apply: (e, v) => { e.scanlineIntensity = v; } },
+            { key: "retroMask", label: "Phosphor Mask", folder: "CRT", type: "number", min: 0, max: 1, step: 0.01, apply: (e, v) => { e.maskIntensity = v; } },
+        ],
+        capture: (e, r) => e.setViewRegion(r),
+        panel: (folder, ctx) => {
+            folder.addButton({ title: "Load palette image…" })
+                .on("click", async () => {
+                    const file = await pickFile("image/*");
+                    if (!file) return;
+                    await ctx.manager.loadRetroPaletteFromImage(file);
+                    folder.refresh();
+                });
+        },
+    }),
+
+    define({
+        key: "color",
+        title: "🎨 Color",
+        order: 140,
+        create: () => new BrightnessContrastEffect({
+            brightness: .2,
+            contrast: 0.05,
+            blendFunction: BlendFunction.SOFT_LIGHT
+        }),
+    }),
+
+    define({
+        key: "sepia",
+        title: "🎨 Sepia",
+        order: 145,
+        create: () => new SepiaEffect({ blendFunction: BLEND_FUNCTIONS[Params.sepiaBlend] ?? BlendFunction.SOFT_LIGHT }),
+        params: [
+            { key: "sepiaIntensity", label: "Intensity", type: "number", min: 0, max: 1, step: 0.01, apply: (e, v) => { e.intensity = v; } },
+            {
+                key: "sepiaBlend", label: "Blend Mode", type: "options",
+                options: { Normal: "NORMAL", Screen: "SCREEN", Add: "ADD", Multiply: "MULTIPLY", Overlay: "OVERLAY", SoftLight: "SOFT_LIGHT" },
+                apply: (e, v) => { e.blendMode.setBlendFunction(BLEND_FUNCTIONS[v] ?? BlendFunction.SOFT_LIGHT); }
+            },
+        ],
+    }),
+
+    define({
+        key: "final",
+        title: "🎛️ Final Mix",
+        order: 150,
+        create: (ctx) => new FinalEffect({ grain: ctx.assets["grainTexture"]! }),
+        params: [
+            { key: "noise", label: "Noise Strength", type: "number", min: 0, max: 0.5, step: 0.001, apply: (e, v) => { e.noise = v; } },
+            {
+                key: "grainMode", label: "Grain Mode", type: "options",
+                options: { Static: "STATIC", Animated: "ANIMATED", Procedural: "PROCEDURAL", Chroma: "CHROMA" },
+                apply: (e, v) => { e.grainMode = v as GrainMode; }
+            },
+            { key: "grainScale", label: "Grain Scale", type: "number", min: 1, max: 16, step: 0.1, apply: (e, v) => { e.grainScale = v; } },
+            { key: "vignetteCenter", label: "Center", type: "point", min: 0, max: 1, step: 0.001, apply: (e, v) => { e.vignetteCenter.set(v.x, v.y); } },
+            { key: "vignetteRadius", label: "Radius", type: "number", min: 0.3, max: 0.95, step: 0.001, apply: (e, v) => { e.vignetteRadius = v; } },
+            { key: "vignetteStrength", label: "Strength", type: "number", min: 0, max: 1, step: 0.001, apply: (e, v) => { e.vignetteStrength = v; } },
+            { key: "vignettePower", label: "Falloff Power", type: "number", min: 0.8, max: 4, step: 0.01, apply: (e, v) => { e.vignettePower = v; } },
+            { key: "vignetteColor", label: "Color", type: "color", apply: (e, v) => { e.vignetteColorHex = new Color(v.r, v.g, v.b).getHex(); } },
+            { key: "finalOpacity", label: "Opacity", type: "number", min: 0, max: 1, step: 0.01, apply: (e, v) => { e.blendMode.opacity.value = v; } },
+            {
+                key: "finalBlend", label: "Blend Mode", type: "options",
+                options: { Normal: "NORMAL", Screen: "SCREEN", Add: "ADD", Multiply: "MULTIPLY", Overlay: "OVERLAY", SoftLight: "SOFT_LIGHT" },
+                apply: (e, v) => { e.blendMode.setBlendFunction(BLEND_FUNCTIONS[v] ?? BlendFunction.NORMAL); }
+            },
+        ],
+        capture: (e, r) => e.setViewRegion(r),
+    }),
+];
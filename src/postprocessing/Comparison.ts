@@ -0,0 +1,193 @@
+// Comparison.ts
+import type { EffectDefinition } from "./EffectRegistry";
+import { assignParams, type PostProcessingPreset } from "./Presets";
+
+export type CompareMode = "off" | "wipe" | "sideBySide" | "flicker";
+
+export const COMPARE_MODES: Record<string, CompareMode> = {
+    "Off": "off",
+    "Wipe": "wipe",
+    "Side by Side": "sideBySide",
+    "Flicker": "flicker",
+};
+
+/**
+ * What one side shows, as a string so it can sit in a list blade:
+ * "raw" (RenderPass only), "chain", "solo:<key>", "without:<key>" or "preset:<name>".
+ */
+export type CompareSideSpec = string;
+
+export type CompareSide = {
+    spec: CompareSideSpec;
+    label: string;
+    enabled: Record<string, boolean>;          // key order is the chain order
+    params: Record<string, unknown> | null;   // null: the live Params
+};
+
+// kept at the live value on both sides: swapping them twice per frame would refetch a file
+// every frame (lutFile) or reallocate render targets every frame (bloom radius sets its resolution)
+export const COMPARE_STATIC_PARAMS = new Set(["lutFile", "radius"]);
+
+export function compareSideOptions(definitions: EffectDefinition<any>[], presetNames: string[]): { text: string; value: string }[] {
+    return [
+        { text: "Raw (RenderPass)", value: "raw" },
+        { text: "Full Chain", value: "chain" },
+        ...definitions.map(d => ({ text: `Solo: ${d.title}`, value: `solo:${d.key}` })),
+        ...definitions.map(d => ({ text: `Without: ${d.title}`, value: `without:${d.key}` })),
+        ...presetNames.map(name => ({ text: `Preset: ${name}`, value: `preset:${name}` })),
+    ];
+}
+
+/**
+ * Flags (in chain order) and, for presets, the parameter set of one side.
+ * Presets are resolved like applyPreset does: on top of the defaults.
+ */
+export function resolveCompareSide(
+    spec: CompareSideSpec,
+    enabled: Record<string, boolean>,
+    presets: Record<string, PostProcessingPreset>,
+    base: PostProcessingPreset
+): CompareSide {
+    const [kind, arg = ""] = spec.split(/:(.*)/s);
+    const order = Object.keys(enabled);
+    const only = (keys: string[]) => Object.fromEntries(order.map(key => [key, keys.includes(key)]));
+
+    switch (kind) {
+        case "raw":
+            return { spec, label: "Raw", enabled: only([]), params: null };
+        case "solo":
+            return { spec, label: `Solo ${arg}`, enabled: only([arg]), params: null };
+        case "without":
+            return { spec, label: `Without ${arg}`, enabled: { ...enabled, [arg]: false }, params: null };
+        case "preset": {
+            const preset = presets[arg];
+            if (!preset) break;
+            const params = structuredClone(base.params) as Record<string, unknown>;
+            assignParams(params, preset.params);
+            const flags = { ...base.enabled, ...preset.enabled };
+            const presetOrder = [
+                ...preset.order.filter(key => order.includes(key)),
+                ...order.filter(key => !preset.order.includes(key)),
+            ];
+            return {
+                spec,
+                label: preset.name,
+                enabled: Object.fromEntries(presetOrder.map(key => [key, flags[key] ?? false])),
+                params,
+            };
+        }
+    }
+    return { spec, label: "Chain", enabled: { ...enabled }, params: null };
+}
+
+/**
+ * Wipe line and side labels drawn over the canvas. The line can be dragged
+ * in wipe mode; side-by-side shows it fixed in the middle.
+ */
+export class CompareOverlay {
+    public readonly element: HTMLDivElement;
+
+    private _line: HTMLDivElement;
+    private _labelA: HTMLDivElement;
+    private _labelB: HTMLDivElement;
+    private _onSplit: (split: number) => void;
+    private _dragging = false;
+
+    constructor(onSplit: (split: number) => void, parent: HTMLElement = document.body) {
+        this._onSplit = onSplit;
+
+        this.element = document.createElement("div");
+        Object.assign(this.element.style, {
+            position: "fixed",
+            pointerEvents: "none",
+            display: "none",
+            zIndex: "10",
+            font: "11px/1.4 monospace",
+            color: "#fff",
+        });
+
+        // wide transparent hit area around a 2px line
+        this._line = document.createElement("div");
+        Object.assign(this._line.style, {
+            position: "absolute",
+            top: "0",
+            bottom: "0",
+            width: "16px",
+            marginLeft: "-8px",
+            cursor: "ew-resize",
+            pointerEvents: "auto",
+            touchAction: "none",
+            background: "linear-gradient(to right, transparent 7px, rgba(255,255,255,0.8) 7px, rgba(255,255,255,0.8) 9px, transparent 9px)",
+        });
+        this._line.addEventListener("pointerdown", this._onPointerDown);
+        this._line.addEventListener("pointermove", this._onPointerMove);
+        this._line.addEventListener("pointerup", this._onPointerUp);
+
+        this._labelA = this._createLabel({ left: "8px" });
+        this._labelB = this._createLabel({ right: "8px" });
+
+        this.element.append(this._line, this._labelA, this._labelB);
+        parent.appendChild(this.element);
+    }
+
+    /** Lays the overlay over `rect`; `side` is the side flicker currently shows. */
+    public update(mode: Exclude<CompareMode, "off">, split: number, labels: [string, string], rect: DOMRect, side: 0 | 1 = 0): void {
+        Object.assign(this.element.style, {
+            display: "block",
+            left: `${rect.left}px`,
+            top: `${rect.top}px`,
+            width: `${rect.width}px`,
+            height: `${rect.height}px`,
+        });
+
+        const x = mode === "sideBySide" ? 0.5 : split;
+        this._line.style.display = mode === "flicker" ? "none" : "block";
+        this._line.style.left = `${x * 100}%`;
+        this._line.style.pointerEvents = mode === "wipe" ? "auto" : "none";
+
+        this._labelA.textContent = `A: ${labels[0]}`;
+        this._labelB.textContent = `B: ${labels[1]}`;
+        this._labelA.style.display = mode === "flicker" && side !== 0 ? "none" : "block";
+        this._labelB.style.display = mode === "flicker" && side !== 1 ? "none" : "block";
+    }
+
+    public hide(): void {
+        this.element.style.display = "none";
+    }
+
+    public dispose(): void {
+        this._line.removeEventListener("pointerdown", this._onPointerDown);
+        this._line.removeEventListener("pointermove", this._onPointerMove);
+        this._line.removeEventListener("pointerup", this._onPointerUp);
+        this.element.remove();
+    }
+
+    private _createLabel(position: Partial<CSSStyleDeclaration>): HTMLDivElement {
+        const label = document.createElement("div");
+        Object.assign(label.style, {
+            position: "absolute",
+            top: "8px",
+            padding: "2px 6px",
+            borderRadius: "2px",
+            background: "rgba(0,0,0,0.6)",
+            ...position,
+        });
+        return label;
+    }
+
+    private _onPointerDown = (ev: PointerEvent) => {
+        this._dragging = true;
+        this._line.setPointerCapture(ev.pointerId);
+    };
+
+    private _onPointerMove = (ev: PointerEvent) => {
+        if (!this._dragging) return;
+        const rect = this.element.getBoundingClientRect();
+        this._onSplit(Math.min(Math.max((ev.clientX - rect.left) / rect.width, 0), 1));
+    };
+
+    private _onPointerUp = (ev: PointerEvent) => {
+        this._dragging = false;
+        this._line.releasePointerCapture(ev.pointerId);
+    };
+}
@@ -1,6 +1,11 @@
+import { SMAAPreset } from "postprocessing";
+import type { QualitySettings } from "./EffectRegistry";
+import type { GodRaySourceParams } from "./GodRaySource";
+
 export const Params = {
 
     // Bloom
+    bloomMode: "THRESHOLD", // THRESHOLD | SELECTIVE (meshes tagged isEmmisive / bloom)
     threshold: 0.43,
     strength: 1,
     radius: 0.5,
@@ -10,8 +15,41 @@ export const Params = {
     ssaoBias: 0.025,
     ssaoOpacity: 0.8,
 
-    // FinalEffect params (for reference; not exposed to UI)
+    // SSR
+    ssrIntensity: 0.6,
+    ssrMaxDistance: 8,
+    ssrThickness: 0.15,
+    ssrSteps: 48,
+    ssrRoughness: 0.2,
+    ssrBlur: 0.02,
+
+    // Depth of Field
+    dofFocusMode: "MANUAL", // MANUAL | AUTO | PICK
+    dofFocusDistance: 8,
+    dofFocalLength: 50,     // mm
+    dofAperture: 2.8,       // f-number
+    dofBokehScale: 2,
+    dofFocusSpeed: 4,
+
+    // Motion Blur
+    motionBlurShutterAngle: 180, // degrees
+    motionBlurSamples: 12,
+    motionBlurDebug: false,      // show the velocity buffer instead of the blur
+
+    // Lens
+    caStrength: 0.004,           // channel offset at the corners (uv)
+    caFalloff: 1.5,
+    lensDistortion: 0.08,        // > 0 barrel, < 0 pincushion
+    flareIntensity: 0.6,
+    flareGhosts: 4,
+    flareGhostDispersal: 0.35,
+    flareHaloWidth: 0.45,
+    flareHaloIntensity: 0.5,
+    flareChromatic: 0.004,
+
+    // FinalEffect params
     noise: 0.038,
+    grainMode: "ANIMATED", // STATIC | ANIMATED | PROCEDURAL | CHROMA
     grainScale: 6.0,
 
     vignetteCenter: { x: 0.5, y: 0.5 },
@@ -20,7 +58,44 @@ export const Params = {
     vignettePower: 0.8,
     vignetteColor: { r: 0.06, g: 0.07, b: 0.10 }, // tweakpane 'float' color
     finalOpacity: 1,
-    finalBlend: "ADD", // UI label; we map to BlendFunction
+    finalBlend: "NORMAL", // UI label; we map to BlendFunction
+
+    // Outline (meshes tagged userData.outline)
+    outlineStrength: 3,
+    outlineColor: { r: 1, g: 0.85, b: 0.4 },
+    outlineHiddenColor: { r: 0.25, g: 0.2, b: 0.1 },
+    outlineXRay: true,
+
+    // God Rays (per light, keyed by light name; filled in when sources are registered)
+    godRaysSamples: 60,
+    godRaysSources: {} as Record<string, GodRaySourceParams>,
+
+    // Tone Mapping
+    toneMappingOperator: "ACES", // ACES | AGX | REINHARD | UNCHARTED2 | NEUTRAL
+    toneMappingExposure: 0,      // EV compensation
+    autoExposure: true,
+    autoExposureMinLuminance: 0.1,
+    autoExposureMaxLuminance: 0.9,
+    autoExposureSpeed: 1,
+    autoExposureMiddleGrey: 0.3,
+
+    // LUT
+    lutFile: "/luts/warm-fade.cube",
+    lutIntensity: 1,
+    lutBakeSize: 33,
+
+    // Retro (each part toggles independently)
+    retroPixelate: true,
+    retroPixelSize: 4,
+    retroDither: true,
+    retroDitherMode: "BAYER",  // BAYER | BLUE_NOISE
+    retroDitherStrength: 1,
+    retroColorLevels: 6,       // per channel, used while the palette is off
+    retroPalette: true,
+    retroPaletteName: "PICO8", // GAMEBOY | CGA | PICO8 | CUSTOM
+    retroCRT: false,
+    retroScanlines: 0.35,
+    retroMask: 0.25,
 
     // Color
     brightness: 0,
@@ -28,5 +103,13 @@ export const Params = {
 
     // Sepia
     sepiaIntensity: .43,
-    sepiaBlend: "ADD", // UI label; we map to BlendFunction
-};
\ No newline at end of file
+    sepiaBlend: "SOFT_LIGHT", // UI label; we map to BlendFunction
+};
+// effect cost at the "High" quality tier (the authored look); QualityGovernor steps around it
+export const DEFAULT_QUALITY: QualitySettings = {
+    ssaoSamples: 9,
+    ssaoRings: 7,
+    ssaoResolutionScale: 0.5,
+    bloomResolutionScale: 1,
+    smaaPreset: SMAAPreset.HIGH,
+};
@@ -0,0 +1,164 @@
+// DepthOfFieldFocus.ts
+import type { DepthOfFieldEffect, DepthPickingPass } from "postprocessing";
+import { Camera, MathUtils, Raycaster, Scene, Vector2, Vector3 } from "three";
+import { sceneTags } from "../SceneTags";
+
+export type FocusMode = "MANUAL" | "AUTO" | "PICK";
+
+type FocusOpts = {
+    scene: Scene;
+    camera: Camera;
+    canvas: HTMLCanvasElement;
+    depthPicking: DepthPickingPass;
+
+    focusDistance?: number;     // manual focus distance (world units)
+    focalLength?: number;       // lens focal length in mm
+    aperture?: number;          // f-number
+    smoothing?: number;         // damping factor for focus pulls (higher = faster)
+    autoFocusInterval?: number; // seconds between centre depth reads
+};
+
+// circle of confusion for a 35mm sensor (mm)
+const SENSOR_COC = 0.03;
+// pointer travel (px) below which a pointerup counts as a click rather than an orbit drag
+const CLICK_TOLERANCE = 4;
+
+/**
+ * Drives DepthOfFieldEffect focus from one of three sources (manual, centre
+ * autofocus, click-to-focus) and damps the focus distance between frames.
+ */
+export class DepthOfFieldFocus {
+    public mode: FocusMode = "MANUAL";
+    public focusDistance: number;
+    public focalLength: number;
+    public aperture: number;
+    public smoothing: number;
+    public autoFocusInterval: number;
+
+    private _scene: Scene;
+    private _camera: Camera;
+    private _canvas: HTMLCanvasElement;
+    private _depthPicking: DepthPickingPass;
+
+    private _currentDistance: number;
+    private _targetDistance: number;
+    private _pickedPoint: Vector3 | null = null;
+    private _autoFocusTimer = 0;
+    private _autoFocusPending = false;
+
+    private _raycaster = new Raycaster();
+    private _pointer = new Vector2();
+    private _pointerDown = new Vector2();
+    private _tmp = new Vector3();
+
+    constructor(opts: FocusOpts) {
+        this._scene = opts.scene;
+        this._camera = opts.camera;
+        this._canvas = opts.canvas;
+        this._depthPicking = opts.depthPicking;
+
+        this.focusDistance = opts.focusDistance ?? 8;
+        this.focalLength = opts.focalLength ?? 50;
+        this.aperture = opts.aperture ?? 2.8;
+        this.smoothing = opts.smoothing ?? 4;
+        this.autoFocusInterval = opts.autoFocusInterval ?? 0.1;
+
+        this._currentDistance = this._targetDistance = this.focusDistance;
+
+        this._canvas.addEventListener("pointerdown", this._onPointerDown);
+        this._canvas.addEventListener("pointerup", this._onPointerUp);
+    }
+
+    //#region Frame
+    /** Resolves the focus target for the current mode and applies the damped distance to the effect. */
+    public update(effect: DepthOfFieldEffect, deltaTime: number): void {
+        switch (this.mode) {
+            case "MANUAL":
+                this._targetDistance = this.focusDistance;
+                break;
+            case "AUTO":
+                this._autoFocusTimer -= deltaTime;
+                if (this._autoFocusTimer <= 0 && !this._autoFocusPending) {
+                    this._autoFocusTimer = this.autoFocusInterval;
+                    this._requestCentreDepth();
+                }
+                break;
+            case "PICK":
+                // follow the picked point while the camera orbits
+                if (this._pickedPoint) this._targetDistance = this._viewDepth(this._pickedPoint);
+                break;
+        }
+
+        this._currentDistance = MathUtils.damp(this._currentDistance, this._targetDistance, this.smoothing, deltaTime);
+
+        const coc = effect.cocMaterial;
+        coc.worldFocusDistance = this._currentDistance;
+        coc.worldFocusRange = this._depthOfField(this._currentDistance);
+    }
+
+    /** The focus distance currently applied (after smoothing). */
+    public get currentDistance(): number { return this._currentDistance; }
+
+    public set camera(camera: Camera) { this._camera = camera; }
+
+    /** Stops waiting on a centre read the depth picking pass may never answer (it left the chain). */
+    public cancelAutoFocus(): void { this._autoFocusPending = false; }
+    //#endregion
+
+    //#region Focus sources
+    private _requestCentreDepth(): void {
+        this._autoFocusPending = true;
+        this._depthPicking.readDepth(this._tmp.set(0, 0, 0)).then((depth) => {
+            // background: keep the previous focus
+            if (depth >= 1) return;
+
+            this._tmp.set(0, 0, depth * 2 - 1).unproject(this._camera);
+            this._targetDistance = this._viewDepth(this._tmp);
+        }).catch((error: unknown) => {
+            console.warn("Autofocus depth read failed:", error);
+        }).finally(() => {
+            this._autoFocusPending = false;
+        });
+    }
+
+    private _onPointerDown = (ev: PointerEvent) => {
+        this._pointerDown.set(ev.clientX, ev.clientY);
+    };
+
+    private _onPointerUp = (ev: PointerEvent) => {
+        if (this.mode !== "PICK") return;
+        if (this._pointerDown.distanceTo(this._pointer.set(ev.clientX, ev.clientY)) > CLICK_TOLERANCE) return;
+
+        const rect = this._canvas.getBoundingClientRect();
+        this._pointer.set(
+            ((ev.clientX - rect.left) / rect.width) * 2 - 1,
+            -((ev.clientY - rect.top) / rect.height) * 2 + 1
+        );
+
+        this._raycaster.setFromCamera(this._pointer, this._camera);
+        // clicks go through glass to what is behind it
+        const hit = this._raycaster.intersectObject(this._scene, true)
+            .find((i) => (i.object as any).isMesh && i.object.visible && !sceneTags.has(i.object, "glass"));
+
+        if (hit) this._pickedPoint = hit.point.clone();
+    };
+    //#endregion
+
+    //#region Utils
+    private _viewDepth(point: Vector3): number {
+        return -this._tmp.copy(point).applyMatrix4(this._camera.matrixWorldInverse).z;
+    }
+
+    /** Thin-lens depth of field (world units) for the current focal length and aperture. */
+    private _depthOfField(distance: number): number {
+        const s = distance * 1000;
+        const f = this.focalLength;
+        return (2 * this.aperture * SENSOR_COC * s * s) / (f * f) / 1000;
+    }
+
+    public dispose(): void {
+        this._canvas.removeEventListener("pointerdown", this._onPointerDown);
+        this._canvas.removeEventListener("pointerup", this._onPointerUp);
+    }
+    //#endregion
+}
@@ -0,0 +1,12 @@
+// DetachableEffectPass.ts
+import { EffectPass } from "postprocessing";
+
+/**
+ * EffectPass that can let go of its effects before it is disposed, so they
+ * stay with whoever owns them (EffectPass.dispose would dispose them too).
+ */
+export class DetachableEffectPass extends EffectPass {
+    public detach(): void {
+        this.setEffects([]);
+    }
+}
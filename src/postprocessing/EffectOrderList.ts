@@ -0,0 +1,94 @@
+// EffectOrderList.ts
+
+export type EffectOrderItem = {
+    key: string;
+    title: string;
+    enabled: boolean;
+    pass: number | null;   // EffectPass index when enabled and built
+};
+
+/**
+ * Drag-to-reorder list of the effect chain for the debug panel. Shows the
+ * order the builder actually uses and which EffectPass each effect ended up in.
+ */
+export class EffectOrderList {
+    public readonly element: HTMLUListElement;
+
+    private _onReorder: (order: string[]) => void;
+    private _items: EffectOrderItem[] = [];
+    private _dragKey: string | null = null;
+
+    constructor(onReorder: (order: string[]) => void) {
+        this._onReorder = onReorder;
+
+        this.element = document.createElement("ul");
+        Object.assign(this.element.style, {
+            listStyle: "none",
+            margin: "0",
+            padding: "2px 4px",
+            width: "100%",
+            boxSizing: "border-box",
+            font: "inherit",
+            color: "var(--tp-label-foreground-color, #bbb)",
+        });
+    }
+
+    public update(items: EffectOrderItem[]): void {
+        this._items = items;
+        this.element.replaceChildren(...items.map(item => this._createRow(item)));
+    }
+
+    private _createRow(item: EffectOrderItem): HTMLLIElement {
+        const row = document.createElement("li");
+        row.draggable = true;
+        row.dataset.key = item.key;
+        row.textContent = `≡ ${item.title}`;
+        Object.assign(row.style, {
+            display: "flex",
+            justifyContent: "space-between",
+            padding: "2px 6px",
+            margin: "1px 0",
+            borderRadius: "2px",
+            cursor: "grab",
+            opacity: item.enabled ? "1" : "0.4",
+            background: "var(--tp-container-background-color, rgba(255,255,255,0.06))",
+        });
+
+        const badge = document.createElement("span");
+        badge.textContent = item.pass === null ? "" : `pass ${item.pass}`;
+        badge.style.opacity = "0.6";
+        row.appendChild(badge);
+
+        row.addEventListener("dragstart", (ev) => {
+            this._dragKey = item.key;
+            ev.dataTransfer?.setData("text/plain", item.key);
+        });
+        row.addEventListener("dragover", (ev) => {
+            ev.preventDefault();
+            const after = this._isLowerHalf(row, ev);
+            row.style.boxShadow = after ? "inset 0 -2px 0 currentColor" : "inset 0 2px 0 currentColor";
+        });
+        row.addEventListener("dragleave", () => { row.style.boxShadow = ""; });
+        row.addEventListener("drop", (ev) => {
+            ev.preventDefault();
+            row.style.boxShadow = "";
+            if (this._dragKey && this._dragKey !== item.key) this._move(this._dragKey, item.key, this._isLowerHalf(row, ev));
+            this._dragKey = null;
+        });
+        row.addEventListener("dragend", () => { this._dragKey = null; });
+
+        return row;
+    }
+
+    private _isLowerHalf(row: HTMLElement, ev: DragEvent): boolean {
+        const rect = row.getBoundingClientRect();
+        return ev.clientY > rect.top + rect.height / 2;
+    }
+
+    private _move(key: string, targetKey: string, after: boolean): void {
+        const order = this._items.map(item => item.key).filter(k => k !== key);
+        const index = order.indexOf(targetKey) + (after ? 1 : 0);
+        order.splice(index, 0, key);
+        this._onReorder(order);
+    }
+}
@@ -0,0 +1,48 @@
+// EffectPartition.ts
+import { EffectAttribute, type Effect } from "postprocessing";
+
+export type PassGroup<T> = {
+    entries: T[];
+    reason: string;   // why this pass could not continue the previous one
+};
+
+export function isConvolution(effect: Effect): boolean {
+    return (effect.getAttributes() & EffectAttribute.CONVOLUTION) !== 0;
+}
+
+export function transformsUv(effect: Effect): boolean {
+    return /mainUv/.test(effect.getFragmentShader());
+}
+
+/**
+ * Splits an ordered chain into as few EffectPasses as possible while keeping
+ * the order we asked for. EffectPass re-sorts its effects by attributes
+ * (convolution > depth > none), merges at most one convolution effect, applies
+ * a UV transform to every effect in the pass and refuses UV transforms next to
+ * convolution. So an effect opens a new pass when it:
+ * - is a convolution effect (it must run first and alone),
+ * - transforms UVs (it would warp the effects before it),
+ * - follows a UV transform (it would be warped too, e.g. grain on pixelated UVs),
+ * - has "higher" attributes than the previous effect (the sort would hoist it).
+ */
+export function partitionEffects<T extends { effect: Effect }>(entries: T[]): PassGroup<T>[] {
+    const groups: PassGroup<T>[] = [];
+
+    entries.forEach(entry => {
+        const { effect } = entry;
+        const group = groups[groups.length - 1];
+        const last = group?.entries[group.entries.length - 1];
+
+        let reason = "";
+        if (!last) reason = "first pass";
+        else if (isConvolution(effect)) reason = "convolution effect";
+        else if (transformsUv(effect)) reason = "UV transform";
+        else if (transformsUv(last.effect)) reason = "after UV transform";
+        else if (effect.getAttributes() > last.effect.getAttributes()) reason = "attribute order";
+
+        if (reason) groups.push({ entries: [entry], reason });
+        else group.entries.push(entry);
+    });
+
+    return groups;
+}
@@ -0,0 +1,151 @@
+// EffectRegistry.ts
+import type { DepthDownsamplingPass, DepthPickingPass, Effect, NormalPass, SMAAPreset } from "postprocessing";
+import type { Camera, Scene, Texture, WebGLRenderer } from "three";
+import type { FolderApi } from "tweakpane";
+import { BUILTIN_EFFECTS } from "./BuiltinEffects";
+import { Params } from "./Constants";
+import type { GodRaySource } from "./GodRaySource";
+import type PostProcessingManager from "./PostProcessingManager";
+import type { VelocityPass } from "./VelocityPass";
+
+/** Shared buffers an effect reads; the manager only runs the helper passes someone needs. */
+export type HelperBuffer = "normal" | "normalDepth" | "depthPicking" | "velocity";
+
+/** Helper passes by buffer; the ones listed in a definition's `requires` exist before its create runs. */
+export type EffectHelpers = {
+    normalPass: NormalPass;
+    depthDownPass?: DepthDownsamplingPass;
+    depthPickingPass: DepthPickingPass;
+    velocityPass: VelocityPass;
+};
+
+/** Cost settings of the current quality tier that effects apply through their `quality` hook. */
+export type QualitySettings = {
+    ssaoSamples: number;
+    ssaoRings: number;
+    ssaoResolutionScale: number;
+    bloomResolutionScale: number;   // multiplies Params.radius
+    smaaPreset: SMAAPreset;
+};
+
+/** Part of a larger frame a tiled capture renders, in uv of that frame (origin bottom left). */
+export type CaptureRegion = {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    pixelScale: number;   // output pixels per screen pixel
+};
+
+/** What factories and hooks get to see of the manager. */
+export interface EffectContext {
+    readonly manager: PostProcessingManager;
+    readonly renderer: WebGLRenderer;
+    readonly scene: Scene;
+    readonly camera: Camera;
+    readonly assets: Record<string, Texture | null>;
+    readonly helpers: EffectHelpers;
+    readonly godRaySources: readonly GodRaySource[];
+    readonly quality: QualitySettings;
+    getEffect<T extends Effect>(key: string): T | undefined;
+    isEnabled(key: string): boolean;
+}
+
+//#region Parameter schema
+type ParamBase<E, V> = {
+    key: string;              // Params key; third-party keys are added to Params on registration
+    label: string;
+    default?: V;              // only needed for keys Params does not have yet
+    folder?: string;          // sub-folder title inside the effect folder
+    apply?: (effect: E, value: V, ctx: EffectContext) => void;
+};
+
+export type NumberParam<E> = ParamBase<E, number> & { type: "number"; min?: number; max?: number; step?: number };
+export type BooleanParam<E> = ParamBase<E, boolean> & { type: "boolean" };
+export type OptionsParam<E> = ParamBase<E, any> & { type: "options"; options: Record<string, string | number> };
+export type ColorParam<E> = ParamBase<E, { r: number; g: number; b: number }> & { type: "color" };
+export type PointParam<E> = ParamBase<E, { x: number; y: number }> & { type: "point"; min?: number; max?: number; step?: number };
+
+export type EffectParam<E> = NumberParam<E> | BooleanParam<E> | OptionsParam<E> | ColorParam<E> | PointParam<E>;
+//#endregion
+
+/**
+ * One effect declared once: the manager builds the instance, the enable
+ * toggle and the debug bindings from it. Effects that expand into several
+ * instances (god rays) leave out `create` and provide `resolve`.
+ */
+export type EffectDefinition<E extends Effect = Effect> = {
+    key: string;
+    title: string;                 // debug folder title
+    group?: string;                // parent folder shared with other effects (e.g. "🔍 Lens")
+    order: number;                 // slot in the default chain, lower runs first
+    enabled?: boolean;             // default true
+    requires?: HelperBuffer[];
+    params?: EffectParam<E>[];
+
+    create?: (ctx: EffectContext) => E;
+    /** Effects to put in the chain; defaults to the created instance. */
+    resolve?: (effect: E | undefined, ctx: EffectContext) => Effect[];
+    /** Called before every pipeline build. */
+    onBuild?: (effect: E, ctx: EffectContext) => void;
+    /** Called every frame while enabled. */
+    update?: (effect: E | undefined, deltaTime: number, ctx: EffectContext) => void;
+    /** Called after create and on every quality tier change; for cost settings that are not Params. */
+    quality?: (effect: E, quality: QualitySettings, ctx: EffectContext) => void;
+    /** Called per tile of a high-resolution capture and with null after it; for screen-space parameters. */
+    capture?: (effect: E, region: CaptureRegion | null, ctx: EffectContext) => void;
+    /** Called after effect.mainCamera when the manager switches cameras; for camera references kept outside the effect. */
+    camera?: (effect: E, camera: Camera, ctx: EffectContext) => void;
+    /** Called when the manager is disposed, after effect.dispose(); for resources kept outside the effect. */
+    dispose?: (effect: E, ctx: EffectContext) => void;
+    /** Extra debug controls after the generated bindings. */
+    panel?: (folder: FolderApi, ctx: EffectContext) => void;
+};
+
+type RegistryListener = (definition: EffectDefinition<any>) => void;
+
+export class EffectRegistry {
+    private _definitions = new Map<string, EffectDefinition<any>>();
+    private _listeners = new Set<RegistryListener>();
+
+    constructor(definitions: EffectDefinition<any>[] = []) {
+        definitions.forEach(definition => this.register(definition));
+    }
+
+    public register<E extends Effect>(definition: EffectDefinition<E>): void {
+        if (this._definitions.has(definition.key)) throw new Error(`Effect "${definition.key}" is already registered`);
+        if (!definition.create && !definition.resolve) throw new Error(`Effect "${definition.key}" needs create or resolve`);
+
+        const params = Params as Record<string, unknown>;
+        definition.params?.forEach(param => {
+            if (params[param.key] !== undefined) return;
+            if (param.default === undefined) throw new Error(`Param "${param.key}" of "${definition.key}" has no default`);
+            params[param.key] = structuredClone(param.default);
+        });
+
+        this._definitions.set(definition.key, definition);
+        this._listeners.forEach(listener => listener(definition));
+    }
+
+    public get(key: string): EffectDefinition<any> | undefined {
+        return this._definitions.get(key);
+    }
+
+    /** All definitions in default chain order. */
+    public list(): EffectDefinition<any>[] {
+        return [...this._definitions.values()].sort((a, b) => a.order - b.order);
+    }
+
+    /** Notified for every later registration; returns the unsubscribe. */
+    public onRegister(listener: RegistryListener): () => void {
+        this._listeners.add(listener);
+        return () => this._listeners.delete(listener);
+    }
+}
+
+export const effectRegistry = new EffectRegistry(BUILTIN_EFFECTS);
+
+/** Registers a third-party effect; live managers pick it up immediately. */
+export function registerEffect<E extends Effect>(definition: EffectDefinition<E>): void {
+    effectRegistry.register(definition);
+}
@@ -0,0 +1,81 @@
+// ExclusionMask.ts
+import { BasicDepthPacking, Camera, OrthographicCamera, PerspectiveCamera, Scene, ShaderMaterial, Texture, Uniform, Vector2, Vector4, WebGLRenderTarget, type DepthPackingStrategies, type WebGLRenderer } from "three";
+// @ts-ignore
+import vertexShader from "/src/shaders/exclusionMask.vert";
+// @ts-ignore
+import fragmentShader from "/src/shaders/exclusionMask.frag";
+
+/**
+ * Screen-space effects (SSAO, SSR) have no per-object opt-out, so this runs
+ * right after one fills its buffer: the meshes on `layer` are drawn over the
+ * buffer as `value` ("no effect") wherever they are the visible surface
+ * (tested against the scene depth the effect used, since its buffer has no
+ * depth of its own).
+ */
+export class ExclusionMask {
+    public layer: number;
+
+    private _material: ShaderMaterial;
+    private _size = new Vector2();
+
+    constructor(layer: number, value: Vector4) {
+        this.layer = layer;
+        this._material = new ShaderMaterial({
+            name: "ExclusionMaskMaterial",
+            defines: {
+                DEPTH_PACKING: String(BasicDepthPacking),
+            },
+            uniforms: {
+                uDepth: new Uniform(null),
+                uResolution: new Uniform(new Vector2()),
+                uPerspective: new Uniform(true),
+                uCameraNearFar: new Uniform(new Vector2(0.1, 1000)),
+                uValue: new Uniform(value),
+            },
+            vertexShader,
+            fragmentShader,
+            depthTest: false,
+            depthWrite: false,
+        });
+    }
+
+    /** Draws into `target` (the effect buffer); does nothing without a depth texture. */
+    render(renderer: WebGLRenderer, scene: Scene, camera: Camera, target: WebGLRenderTarget, depthTexture: Texture | null, depthPacking: DepthPackingStrategies = BasicDepthPacking): void {
+        if (!depthTexture) return;
+
+        const cam = camera as PerspectiveCamera | OrthographicCamera;
+        const uniforms = this._material.uniforms;
+        uniforms.uDepth.value = depthTexture;
+        (uniforms.uResolution.value as Vector2).copy(this._size.set(target.width, target.height));
+        uniforms.uPerspective.value = Boolean((cam as PerspectiveCamera).isPerspectiveCamera);
+        (uniforms.uCameraNearFar.value as Vector2).set(cam.near, cam.far);
+        if (this._material.defines.DEPTH_PACKING !== String(depthPacking)) {
+            this._material.defines.DEPTH_PACKING = String(depthPacking);
+            this._material.needsUpdate = true;
+        }
+
+        // only the tagged meshes, flat, over what the effect wrote
+        const { background, overrideMaterial } = scene;
+        const layers = camera.layers.mask;
+        const autoClear = renderer.autoClear;
+        const shadowAutoUpdate = renderer.shadowMap.autoUpdate;
+        scene.background = null;
+        scene.overrideMaterial = this._material;
+        camera.layers.set(this.layer);
+        renderer.autoClear = false;
+        renderer.shadowMap.autoUpdate = false;
+
+        renderer.setRenderTarget(target);
+        renderer.render(scene, camera);
+
+        scene.background = background;
+        scene.overrideMaterial = overrideMaterial;
+        camera.layers.mask = layers;
+        renderer.autoClear = autoClear;
+        renderer.shadowMap.autoUpdate = shadowAutoUpdate;
+    }
+
+    dispose(): void {
+        this._material.dispose();
+    }
+}
@@ -0,0 +1,138 @@
+// ExposureToneMappingEffect.ts
+import { AdaptiveLuminanceMaterial, AdaptiveLuminancePass, BlendFunction, Effect, LuminancePass } from "postprocessing";
+import { LinearMipmapLinearFilter, Uniform, Vector2, WebGLRenderTarget, type WebGLRenderer } from "three";
+// @ts-ignore
+import fragmentShader from "/src/shaders/toneMapping.frag";
+
+export type ToneMappingOperator = "ACES" | "AGX" | "REINHARD" | "UNCHARTED2" | "NEUTRAL";
+
+const OPERATORS: Record<ToneMappingOperator, string> = {
+    ACES: "ACESFilmicToneMapping(texel)",
+    AGX: "AgXToneMapping(texel)",
+    REINHARD: "ReinhardToneMapping(texel)",
+    UNCHARTED2: "Uncharted2ToneMapping(texel)",
+    NEUTRAL: "NeutralToneMapping(texel)",
+};
+
+// luminance is downsampled to 2^LUMINANCE_MIP_LEVELS before averaging
+const LUMINANCE_MIP_LEVELS = 8;
+
+type ExposureToneMappingOpts = {
+    blendFunction?: BlendFunction;
+
+    operator?: ToneMappingOperator;
+    exposureCompensation?: number;  // EV stops
+    autoExposure?: boolean;
+    middleGrey?: number;
+    minLuminance?: number;
+    maxLuminance?: number;
+    adaptationRate?: number;        // eye adaptation speed
+    whitePoint?: number;            // Uncharted2 only
+};
+
+/**
+ * Tone mapping with a selectable operator and optional eye adaptation:
+ * the scene's average luminance is adapted over time and used to expose
+ * the linear HDR input before the operator runs.
+ */
+export class ExposureToneMappingEffect extends Effect {
+    private _luminanceTarget: WebGLRenderTarget;
+    private _luminancePass: LuminancePass;
+    private _adaptiveLuminancePass: AdaptiveLuminancePass;
+
+    constructor(opts: ExposureToneMappingOpts = {}) {
+        super("ExposureToneMappingEffect", fragmentShader, {
+            blendFunction: opts.blendFunction ?? BlendFunction.SRC,
+            uniforms: new Map<string, Uniform>([
+                ["luminanceBuffer", new Uniform(null)],
+                ["exposure", new Uniform(Math.pow(2, opts.exposureCompensation ?? 0))],
+                ["middleGrey", new Uniform(opts.middleGrey ?? 0.3)],
+                ["luminanceRange", new Uniform(new Vector2(opts.minLuminance ?? 0.1, opts.maxLuminance ?? 0.9))],
+                ["whitePoint", new Uniform(opts.whitePoint ?? 4)],
+            ]),
+        });
+
+        this._luminanceTarget = new WebGLRenderTarget(1, 1, {
+            minFilter: LinearMipmapLinearFilter,
+            depthBuffer: false
+        });
+        this._luminanceTarget.texture.generateMipmaps = true;
+        this._luminanceTarget.texture.name = "ToneMapping.Luminance";
+
+        this._luminancePass = new LuminancePass({ renderTarget: this._luminanceTarget });
+        const size = Math.pow(2, LUMINANCE_MIP_LEVELS);
+        this._luminancePass.resolution.preferredWidth = size;
+        this._luminancePass.resolution.preferredHeight = size;
+
+        this._adaptiveLuminancePass = new AdaptiveLuminancePass(this._luminancePass.texture, {
+            minLuminance: opts.minLuminance ?? 0.1,
+            adaptationRate: opts.adaptationRate ?? 1
+        });
+        this._adaptiveLuminanceMaterial.mipLevel1x1 = LUMINANCE_MIP_LEVELS;
+        this.uniforms.get("luminanceBuffer")!.value = this._adaptiveLuminancePass.texture;
+
+        this.operator = opts.operator ?? "ACES";
+        this.autoExposure = opts.autoExposure ?? true;
+    }
+
+    private get _adaptiveLuminanceMaterial() {
+        return this._adaptiveLuminancePass.fullscreenMaterial as AdaptiveLuminanceMaterial;
+    }
+
+    // ---------- frame ----------
+    update(renderer: WebGLRenderer, inputBuffer: WebGLRenderTarget, deltaTime?: number) {
+        if (!this.autoExposure) return;
+        this._luminancePass.render(renderer, inputBuffer, null);
+        this._adaptiveLuminancePass.render(renderer, null, null, deltaTime);
+    }
+
+    initialize(renderer: WebGLRenderer, alpha: boolean, frameBufferType: number) {
+        this._adaptiveLuminancePass.initialize(renderer, alpha, frameBufferType);
+    }
+
+    dispose() {
+        super.dispose();
+        this._luminanceTarget.dispose();
+        this._luminancePass.dispose();
+        this._adaptiveLuminancePass.dispose();
+    }
+
+    // ---------- operator ----------
+    get operator(): ToneMappingOperator { return this.defines.get("TONE_MAPPING_OPERATOR") as ToneMappingOperator; }
+    set operator(v: ToneMappingOperator) {
+        if (this.defines.get("TONE_MAPPING_OPERATOR") === v) return;
+        this.defines.set("TONE_MAPPING_OPERATOR", v);
+        this.defines.set("toneMapping(texel)", OPERATORS[v]);
+        this.setChanged();
+    }
+
+    get whitePoint() { return (this.uniforms.get("whitePoint") as Uniform<number>).value; }
+    set whitePoint(v: number) { (this.uniforms.get("whitePoint") as Uniform<number>).value = v; }
+
+    // ---------- exposure ----------
+    get exposureCompensation() { return Math.log2((this.uniforms.get("exposure") as Uniform<number>).value); }
+    set exposureCompensation(ev: number) { (this.uniforms.get("exposure") as Uniform<number>).value = Math.pow(2, ev); }
+
+    get autoExposure() { return this.defines.has("AUTO_EXPOSURE"); }
+    set autoExposure(v: boolean) {
+        if (v === this.autoExposure) return;
+        if (v) this.defines.set("AUTO_EXPOSURE", "1");
+        else this.defines.delete("AUTO_EXPOSURE");
+        this.setChanged();
+    }
+
+    get middleGrey() { return (this.uniforms.get("middleGrey") as Uniform<number>).value; }
+    set middleGrey(v: number) { (this.uniforms.get("middleGrey") as Uniform<number>).value = v; }
+
+    get minLuminance() { return (this.uniforms.get("luminanceRange") as Uniform<Vector2>).value.x; }
+    set minLuminance(v: number) {
+        (this.uniforms.get("luminanceRange") as Uniform<Vector2>).value.x = v;
+        this._adaptiveLuminanceMaterial.minLuminance = v;
+    }
+
+    get maxLuminance() { return (this.uniforms.get("luminanceRange") as Uniform<Vector2>).value.y; }
+    set maxLuminance(v: number) { (this.uniforms.get("luminanceRange") as Uniform<Vector2>).value.y = v; }
+
+    get adaptationRate() { return this._adaptiveLuminanceMaterial.adaptationRate; }
+    set adaptationRate(v: number) { this._adaptiveLuminanceMaterial.adaptationRate = v; }
+}
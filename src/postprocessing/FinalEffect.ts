@@ -1,15 +1,21 @@
 // FinalEffect.ts
 import { BlendFunction, Effect } from "postprocessing";
-import { Color, Texture, Uniform, Vector2, Vector3 } from "three";
+import { Color, DataTexture, LinearFilter, RepeatWrapping, RGBAFormat, Texture, Uniform, Vector2, Vector3, Vector4 } from "three";
+import type { CaptureRegion } from "./EffectRegistry";
 // @ts-ignore
 import fragmentShader from "/src/shaders/postProcess.frag";
 
+export type GrainMode = "STATIC" | "ANIMATED" | "PROCEDURAL" | "CHROMA";
+
+const GRAIN_MODE_DEFINES: Record<GrainMode, string> = { STATIC: "0", ANIMATED: "1", PROCEDURAL: "2", CHROMA: "3" };
+
 type FinalOpts = {
     grain: Texture;
     resolution?: { width: number; height: number; };
     blendFunction?: BlendFunction;
 
     // Look params (defaults match our suggested shader)
+    grainMode?: GrainMode;         // texture (static / animated offset), hash, or per-channel texture
     grainScale?: number;           // frequency of grain tiling
     noiseStrength?: number;        // strength of grain (aka uNoiseStrength)
     noise?: number;                // alias for noiseStrength (backward compat)
@@ -20,10 +26,31 @@ type FinalOpts = {
     vignetteColor?: Vector3 | Color; // subtle tint
 };
 
+/** Tileable monochrome grain generated in code, used when grainTexture.png is unavailable. */
+export function createGrainTexture(size = 256): DataTexture {
+    const data = new Uint8Array(size * size * 4);
+    for (let i = 0; i < size * size; i++) {
+        // sum of two uniforms: a softer, roughly triangular distribution around mid grey
+        const v = Math.round((Math.random() + Math.random()) * 127.5);
+        data.set([v, v, v, 255], i * 4);
+    }
+
+    const texture = new DataTexture(data, size, size, RGBAFormat);
+    texture.wrapS = texture.wrapT = RepeatWrapping;
+    texture.minFilter = texture.magFilter = LinearFilter;
+    texture.name = "ProceduralGrain";
+    texture.needsUpdate = true;
+    return texture;
+}
+
 export class FinalEffect extends Effect {
     constructor(opts: FinalOpts) {
         super("FinalEffect", fragmentShader, {
-            blendFunction: opts.blendFunction ?? BlendFunction.SCREEN,
+            // the shader outputs the finished colour, so only NORMAL composites it as-is
+            blendFunction: opts.blendFunction ?? BlendFunction.NORMAL,
+            defines: new Map<string, string>([
+                ["GRAIN_MODE", GRAIN_MODE_DEFINES[opts.grainMode ?? "ANIMATED"]],
+            ]),
             uniforms: new Map<string, Uniform>([
                 ["tGrain", new Uniform(opts.grain)],
                 ["uResolution", new Uniform(new Vector2(
@@ -31,6 +58,8 @@ export class FinalEffect extends Effect {
                     opts.resolution?.height ?? 1
                 ))],
                 ["uTime", new Uniform(0)],
+                ["uViewRegion", new Uniform(new Vector4(0, 0, 1, 1))],
+                ["uPixelScale", new Uniform(1)],
 
                 // Grain
                 ["uGrainScale", new Uniform(opts.grainScale ?? 6.0)],
@@ -60,7 +89,25 @@ export class FinalEffect extends Effect {
         (this.uniforms.get("uResolution") as Uniform<Vector2>).value.set(w, h);
     }
 
+    /** Part of the full frame the next renders cover (tiled capture); null for the whole screen. */
+    setViewRegion(region: CaptureRegion | null) {
+        (this.uniforms.get("uViewRegion") as Uniform<Vector4>).value.set(
+            region?.x ?? 0, region?.y ?? 0, region?.width ?? 1, region?.height ?? 1
+        );
+        (this.uniforms.get("uPixelScale") as Uniform<number>).value = region?.pixelScale ?? 1;
+    }
+
     // ---------- grain ----------
+    get grainMode(): GrainMode {
+        const define = this.defines.get("GRAIN_MODE");
+        return (Object.keys(GRAIN_MODE_DEFINES) as GrainMode[]).find(mode => GRAIN_MODE_DEFINES[mode] === define) ?? "ANIMATED";
+    }
+    set grainMode(v: GrainMode) {
+        if (this.defines.get("GRAIN_MODE") === GRAIN_MODE_DEFINES[v]) return;
+        this.defines.set("GRAIN_MODE", GRAIN_MODE_DEFINES[v]);
+        this.setChanged();
+    }
+
     get grainScale() { return (this.uniforms.get("uGrainScale") as Uniform<number>).value; }
     set grainScale(v: number) { (this.uniforms.get("uGrainScale") as Uniform<number>).value = v; }
 
@@ -87,4 +134,19 @@ export class FinalEffect extends Effect {
         const c = new Color(hex as any);
         (this.uniforms.get("uVignetteColor") as Uniform<Vector3>).value.set(c.r, c.g, c.b);
     }
+
+    // ---------- colour-only (LUT baking) ----------
+    /** Runs `fn` with the spatial parts (grain, vignette) switched off so only the colour transform remains. */
+    withColourOnly<T>(fn: () => T): T {
+        const noise = this.noise;
+        const vignetteStrength = this.vignetteStrength;
+        this.noise = 0;
+        this.vignetteStrength = 0;
+        try {
+            return fn();
+        } finally {
+            this.noise = noise;
+            this.vignetteStrength = vignetteStrength;
+        }
+    }
 }
@@ -0,0 +1,24 @@
+// FrameVignetteEffect.ts
+import { VignetteEffect } from "postprocessing";
+import { Uniform, Vector4 } from "three";
+import type { CaptureRegion } from "./EffectRegistry";
+// @ts-ignore
+import fragmentShader from "/src/shaders/vignette.frag";
+
+type VignetteOpts = ConstructorParameters<typeof VignetteEffect>[0];
+
+/** VignetteEffect that stays centred on the full frame in tiled captures. */
+export class FrameVignetteEffect extends VignetteEffect {
+    constructor(opts: VignetteOpts = {}) {
+        super(opts);
+        this.uniforms.set("uViewRegion", new Uniform(new Vector4(0, 0, 1, 1)));
+        this.setFragmentShader(fragmentShader);
+    }
+
+    /** Part of the frame the next renders cover; null for all of it. */
+    setViewRegion(region: CaptureRegion | null) {
+        (this.uniforms.get("uViewRegion") as Uniform<Vector4>).value.set(
+            region?.x ?? 0, region?.y ?? 0, region?.width ?? 1, region?.height ?? 1
+        );
+    }
+}
@@ -0,0 +1,88 @@
+// GodRaySource.ts
+import { BlendFunction, GodRaysEffect, KernelSize } from "postprocessing";
+import { Camera, DirectionalLight, Light, Mesh, MeshBasicMaterial, SphereGeometry, Vector3 } from "three";
+
+export type GodRaySourceParams = {
+    enabled: boolean;
+    density: number;
+    decay: number;
+    weight: number;
+    exposure: number;
+};
+
+// directional lights have no position of their own: park the sun proxy this far along the light direction
+const DIRECTIONAL_DISTANCE = 60;
+const DIRECTIONAL_RADIUS = 3;
+const POINT_RADIUS = 0.15;
+
+const _direction = new Vector3();
+const _target = new Vector3();
+
+/**
+ * One scene light used as a god-ray emitter. Owns the proxy mesh GodRaysEffect
+ * renders as the "sun" and keeps it glued to the light every frame.
+ */
+export class GodRaySource {
+    public readonly light: Light;
+    public readonly proxy: Mesh<SphereGeometry, MeshBasicMaterial>;
+    public readonly effect: GodRaysEffect;
+    public readonly params: GodRaySourceParams;
+
+    constructor(camera: Camera, light: Light, params: GodRaySourceParams, samples = 60) {
+        this.light = light;
+        this.params = params;
+
+        const isDirectional = (light as DirectionalLight).isDirectionalLight;
+        this.proxy = new Mesh(
+            new SphereGeometry(isDirectional ? DIRECTIONAL_RADIUS : POINT_RADIUS, 16, 8),
+            new MeshBasicMaterial({ color: light.color, transparent: true, depthWrite: false })
+        );
+        this.proxy.name = `${light.name || light.type} (god rays proxy)`;
+
+        this.effect = new GodRaysEffect(camera, this.proxy, {
+            blendFunction: BlendFunction.SCREEN,
+            samples,
+            density: params.density,
+            decay: params.decay,
+            weight: params.weight,
+            exposure: params.exposure,
+            kernelSize: KernelSize.SMALL,
+            resolutionScale: 0.5
+        });
+
+        this.update();
+    }
+
+    /** Follows the light (position or direction) and its colour. */
+    public update(): void {
+        const light = this.light as DirectionalLight;
+        light.getWorldPosition(this.proxy.position);
+
+        if (light.isDirectionalLight) {
+            light.target.getWorldPosition(_target);
+            _direction.subVectors(this.proxy.position, _target).normalize();
+            this.proxy.position.copy(_target).addScaledVector(_direction, DIRECTIONAL_DISTANCE);
+        }
+
+        this.proxy.material.color.copy(light.color);
+    }
+
+    /** Pushes params into the effect after a UI or preset change. */
+    public applyParams(): void {
+        const material = this.effect.godRaysMaterial;
+        material.density = this.params.density;
+        material.decay = this.params.decay;
+        material.weight = this.params.weight;
+        material.exposure = this.params.exposure;
+    }
+
+    public get label(): string {
+        return this.light.name || this.light.type;
+    }
+
+    public dispose(): void {
+        this.effect.dispose();
+        this.proxy.geometry.dispose();
+        this.proxy.material.dispose();
+    }
+}
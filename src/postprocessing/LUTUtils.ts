@@ -0,0 +1,102 @@
+// LUTUtils.ts
+import { BlendFunction, Effect, LUT3dlLoader, LUTCubeLoader, LookupTexture, TextureEffect } from "postprocessing";
+import { Color, DataTexture, FloatType, LinearSRGBColorSpace, NearestFilter, RGBAFormat, SRGBColorSpace, WebGLRenderTarget, type RGB, type WebGLRenderer } from "three";
+import { DetachableEffectPass } from "./DetachableEffectPass";
+
+/** LUTs shipped in public/luts (label -> url). */
+export const LUT_FILES: Record<string, string> = {
+    "Warm Fade": "/luts/warm-fade.cube",
+    "Teal & Orange": "/luts/teal-orange.3dl",
+    "Noir": "/luts/noir.cube",
+};
+
+const _color = new Color();
+const _rgb: RGB = { r: 0, g: 0, b: 0 };
+
+export function isLUTFile(fileName: string): boolean {
+    return /\.(cube|3dl)$/i.test(fileName);
+}
+
+/** Parses .cube or .3dl text (picked by extension) into a 3D lookup texture. */
+export function parseLUT(fileName: string, text: string): LookupTexture {
+    if (/\.cube$/i.test(fileName)) return new LUTCubeLoader().parse(text);
+    if (/\.3dl$/i.test(fileName)) return new LUT3dlLoader().parse(text);
+    throw new Error(`Unsupported LUT format: ${fileName}`);
+}
+
+export async function loadLUT(url: string): Promise<LookupTexture> {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to load LUT ${url} (${response.status})`);
+    return parseLUT(url, await response.text());
+}
+
+/**
+ * Runs an identity lattice (sRGB domain) through `effects` on the GPU and
+ * writes the result as a .cube file. Effects must be purely colour-to-colour
+ * for the bake to be meaningful.
+ */
+export function bakeCube(renderer: WebGLRenderer, effects: Effect[], size = 33, title = "Baked Grade"): string {
+    // lattice laid out as a strip: x = r + b * size, y = g
+    const width = size * size;
+    const height = size;
+    const data = new Float32Array(width * height * 4);
+    for (let b = 0; b < size; b++) {
+        for (let g = 0; g < size; g++) {
+            for (let r = 0; r < size; r++) {
+                const i = (g * width + b * size + r) * 4;
+                _color.setRGB(r / (size - 1), g / (size - 1), b / (size - 1), SRGBColorSpace);
+                data[i + 0] = _color.r;
+                data[i + 1] = _color.g;
+                data[i + 2] = _color.b;
+                data[i + 3] = 1;
+            }
+        }
+    }
+
+    const identity = new DataTexture(data, width, height, RGBAFormat, FloatType);
+    identity.minFilter = identity.magFilter = NearestFilter;
+    identity.needsUpdate = true;
+
+    const targetOptions = { type: FloatType, depthBuffer: false, minFilter: NearestFilter, magFilter: NearestFilter };
+    const inputBuffer = new WebGLRenderTarget(width, height, targetOptions);
+    const outputBuffer = new WebGLRenderTarget(width, height, targetOptions);
+
+    const source = new TextureEffect({ texture: identity, blendFunction: BlendFunction.SRC });
+    const pass = new DetachableEffectPass(undefined, source, ...effects);
+    pass.initialize(renderer, false, FloatType);
+
+    const previousTarget = renderer.getRenderTarget();
+    pass.render(renderer, inputBuffer, outputBuffer, 0);
+    renderer.setRenderTarget(previousTarget);
+
+    const pixels = new Float32Array(width * height * 4);
+    renderer.readRenderTargetPixels(outputBuffer, 0, 0, width, height, pixels);
+
+    // detach the shared effects before disposing so the live chain keeps them
+    pass.detach();
+    pass.dispose();
+    source.dispose();
+    identity.dispose();
+    inputBuffer.dispose();
+    outputBuffer.dispose();
+
+    const lines = [
+        `TITLE "${title}"`,
+        `LUT_3D_SIZE ${size}`,
+        "DOMAIN_MIN 0.0 0.0 0.0",
+        "DOMAIN_MAX 1.0 1.0 1.0",
+    ];
+    // .cube order: red fastest, then green, then blue
+    for (let b = 0; b < size; b++) {
+        for (let g = 0; g < size; g++) {
+            for (let r = 0; r < size; r++) {
+                const i = (g * width + b * size + r) * 4;
+                _color.setRGB(pixels[i], pixels[i + 1], pixels[i + 2], LinearSRGBColorSpace).getRGB(_rgb, SRGBColorSpace);
+                const rgb = [_rgb.r, _rgb.g, _rgb.b].map(v => Math.min(Math.max(v, 0), 1).toFixed(6));
+                lines.push(rgb.join(" "));
+            }
+        }
+    }
+
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,74 @@
+// LensFlareEffect.ts
+import { BlendFunction, Effect, LuminancePass } from "postprocessing";
+import { Uniform, type WebGLRenderer, type WebGLRenderTarget } from "three";
+// @ts-ignore
+import fragmentShader from "/src/shaders/lensFlare.frag";
+
+type LensFlareOpts = {
+    brightPass: LuminancePass;   // usually BloomEffect.luminancePass
+    blendFunction?: BlendFunction;
+
+    intensity?: number;
+    ghosts?: number;             // ghost count (recompiles)
+    ghostDispersal?: number;
+    haloWidth?: number;
+    haloIntensity?: number;
+    chromaticDistortion?: number;
+};
+
+export class LensFlareEffect extends Effect {
+    /** Render the bright-pass here when its owner (bloom) is not in the chain. */
+    public renderBrightPass = false;
+
+    private _brightPass: LuminancePass;
+
+    constructor(opts: LensFlareOpts) {
+        super("LensFlareEffect", fragmentShader, {
+            blendFunction: opts.blendFunction ?? BlendFunction.ADD,
+            defines: new Map<string, string>([
+                ["GHOSTS", String(Math.round(opts.ghosts ?? 4))],
+            ]),
+            uniforms: new Map<string, Uniform>([
+                ["brightBuffer", new Uniform(opts.brightPass.texture)],
+                ["intensity", new Uniform(opts.intensity ?? 0.6)],
+                ["ghostDispersal", new Uniform(opts.ghostDispersal ?? 0.35)],
+                ["haloWidth", new Uniform(opts.haloWidth ?? 0.45)],
+                ["haloIntensity", new Uniform(opts.haloIntensity ?? 0.5)],
+                ["chromaticDistortion", new Uniform(opts.chromaticDistortion ?? 0.004)],
+            ]),
+        });
+
+        this._brightPass = opts.brightPass;
+    }
+
+    update(renderer: WebGLRenderer, inputBuffer: WebGLRenderTarget) {
+        if (this.renderBrightPass) this._brightPass.render(renderer, inputBuffer, null);
+    }
+
+    setSize(width: number, height: number) {
+        // keep the shared bright-pass sized even when bloom is out of the chain
+        this._brightPass.setSize(width, height);
+    }
+
+    // ---------- flare ----------
+    get intensity() { return (this.uniforms.get("intensity") as Uniform<number>).value; }
+    set intensity(v: number) { (this.uniforms.get("intensity") as Uniform<number>).value = v; }
+
+    get ghosts() { return Number(this.defines.get("GHOSTS")); }
+    set ghosts(v: number) {
+        this.defines.set("GHOSTS", String(Math.max(1, Math.round(v))));
+        this.setChanged();
+    }
+
+    get ghostDispersal() { return (this.uniforms.get("ghostDispersal") as Uniform<number>).value; }
+    set ghostDispersal(v: number) { (this.uniforms.get("ghostDispersal") as Uniform<number>).value = v; }
+
+    get haloWidth() { return (this.uniforms.get("haloWidth") as Uniform<number>).value; }
+    set haloWidth(v: number) { (this.uniforms.get("haloWidth") as Uniform<number>).value = v; }
+
+    get haloIntensity() { return (this.uniforms.get("haloIntensity") as Uniform<number>).value; }
+    set haloIntensity(v: number) { (this.uniforms.get("haloIntensity") as Uniform<number>).value = v; }
+
+    get chromaticDistortion() { return (this.uniforms.get("chromaticDistortion") as Uniform<number>).value; }
+    set chromaticDistortion(v: number) { (this.uniforms.get("chromaticDistortion") as Uniform<number>).value = v; }
+}
@@ -0,0 +1,50 @@
+// MotionBlurEffect.ts
+import { BlendFunction, Effect, EffectAttribute } from "postprocessing";
+import { Texture, Uniform } from "three";
+// @ts-ignore
+import fragmentShader from "/src/shaders/motionBlur.frag";
+
+type MotionBlurOpts = {
+    velocityBuffer: Texture;
+    blendFunction?: BlendFunction;
+
+    shutterAngle?: number;   // degrees, 360 = blur over the whole frame interval
+    samples?: number;        // taps along the velocity vector (recompiles)
+    debugScale?: number;     // gain of the velocity debug view
+};
+
+export class MotionBlurEffect extends Effect {
+    constructor(opts: MotionBlurOpts) {
+        super("MotionBlurEffect", fragmentShader, {
+            blendFunction: opts.blendFunction ?? BlendFunction.NORMAL,
+            attributes: EffectAttribute.CONVOLUTION,
+            defines: new Map<string, string>([
+                ["SAMPLES", String(Math.round(opts.samples ?? 12))],
+            ]),
+            uniforms: new Map<string, Uniform>([
+                ["velocityBuffer", new Uniform(opts.velocityBuffer)],
+                ["shutter", new Uniform((opts.shutterAngle ?? 180) / 360)],
+                ["debugScale", new Uniform(opts.debugScale ?? 20)],
+            ]),
+        });
+    }
+
+    // ---------- blur ----------
+    get shutterAngle() { return (this.uniforms.get("shutter") as Uniform<number>).value * 360; }
+    set shutterAngle(v: number) { (this.uniforms.get("shutter") as Uniform<number>).value = v / 360; }
+
+    get samples() { return Number(this.defines.get("SAMPLES")); }
+    set samples(v: number) {
+        this.defines.set("SAMPLES", String(Math.max(1, Math.round(v))));
+        this.setChanged();
+    }
+
+    // ---------- debug ----------
+    get debugVelocity() { return this.defines.has("DEBUG_VELOCITY"); }
+    set debugVelocity(v: boolean) {
+        if (v === this.debugVelocity) return;
+        if (v) this.defines.set("DEBUG_VELOCITY", "1");
+        else this.defines.delete("DEBUG_VELOCITY");
+        this.setChanged();
+    }
+}
@@ -0,0 +1,214 @@
+// PassProfiler.ts
+import type { Pass } from "postprocessing";
+import type { WebGLRenderer } from "three";
+import type { FolderApi } from "tweakpane";
+
+type TimerQueryExtension = {
+    TIME_ELAPSED_EXT: number;
+    GPU_DISJOINT_EXT: number;
+};
+
+type PendingQuery = { label: string; query: WebGLQuery };
+type ToggleListener = (active: boolean) => void;
+
+const HISTORY = 60;              // frames in the rolling average
+const MAX_PENDING_FRAMES = 8;    // results older than this are dropped, not waited for
+const GRAPH_MAX_MS = 8;
+
+/**
+ * Times every composer pass it is given by wrapping its render method: with
+ * EXT_disjoint_timer_query_webgl2 one TIME_ELAPSED query per pass (read back a
+ * few frames later), otherwise CPU time around the call. Passes sharing a name
+ * add up within a frame. Only one timer query can run at a time, so anything
+ * else issuing them (stats-gl) has to pause while the profiler is active.
+ */
+export class PassProfiler {
+    /** Rolling average per pass name, in ms. */
+    public readonly timings: Record<string, number> = {};
+
+    private _gl: WebGL2RenderingContext | null;
+    private _ext: TimerQueryExtension | null;
+    private _enabled = false;
+    private _originals = new Map<Pass, Pass["render"]>();
+    private _history = new Map<string, number[]>();
+    private _listeners = new Set<ToggleListener>();
+
+    // GPU: queries of the frame being recorded and of frames waiting for results
+    private _frameQueries: PendingQuery[] = [];
+    private _pending: PendingQuery[][] = [];
+    // CPU: totals of the frame being recorded
+    private _frameTimes = new Map<string, number>();
+
+    private _folder: FolderApi | null = null;
+    private _monitored = new Set<string>();
+
+    constructor(renderer: WebGLRenderer) {
+        const gl = renderer.getContext();
+        this._gl = gl instanceof WebGL2RenderingContext ? gl : null;
+        this._ext = this._gl?.getExtension("EXT_disjoint_timer_query_webgl2") as TimerQueryExtension | null ?? null;
+    }
+
+    /** Whether passes are timed on the GPU; CPU timing (submission cost only) otherwise. */
+    public get gpu(): boolean {
+        return this._ext !== null;
+    }
+
+    public get enabled(): boolean {
+        return this._enabled;
+    }
+
+    public setEnabled(enabled: boolean): void {
+        if (this._enabled === enabled) return;
+        this._enabled = enabled;
+        if (!enabled) this._clear();
+        this._listeners.forEach(listener => listener(enabled));
+    }
+
+    /** Called whenever profiling starts or stops; returns the unsubscribe. */
+    public onToggle(listener: ToggleListener): () => void {
+        this._listeners.add(listener);
+        return () => this._listeners.delete(listener);
+    }
+
+    /** Wraps exactly these passes (previously wrapped ones are restored). */
+    public setPasses(passes: Pass[]): void {
+        this._restore();
+        passes.forEach(pass => {
+            const render = pass.render;
+            this._originals.set(pass, render);
+            pass.render = (...args: Parameters<Pass["render"]>) => {
+                if (!this._enabled) return render.apply(pass, args);
+                if (this._ext) this._renderTimedGPU(pass, render, args);
+                else this._renderTimedCPU(pass, render, args);
+            };
+        });
+    }
+
+    /** Once per frame before the composer renders: closes the previous frame and collects results. */
+    public beginFrame(): void {
+        if (!this._enabled) return;
+
+        if (this._ext) {
+            if (this._frameQueries.length) this._pending.push(this._frameQueries);
+            this._frameQueries = [];
+            this._collectGPU();
+        } else if (this._frameTimes.size) {
+            this._commit(this._frameTimes);
+            this._frameTimes = new Map();
+        }
+        this._updateMonitors();
+    }
+
+    public setupDebugPanel(folder: FolderApi) {
+        this._folder = folder;
+        const state = { enabled: this._enabled };
+        folder.addBinding(state, "enabled", { label: this.gpu ? "Enable (GPU)" : "Enable (CPU)" })
+            .on("change", (ev) => this.setEnabled(ev.value));
+        this._updateMonitors();
+    }
+
+    public dispose(): void {
+        this._restore();
+        this._clear();
+        this._listeners.clear();
+        this._folder = null;
+        this._monitored.clear();
+    }
+
+    private _renderTimedGPU(pass: Pass, render: Pass["render"], args: Parameters<Pass["render"]>) {
+        const gl = this._gl!;
+        const query = gl.createQuery();
+        gl.beginQuery(this._ext!.TIME_ELAPSED_EXT, query);
+        render.apply(pass, args);
+        gl.endQuery(this._ext!.TIME_ELAPSED_EXT);
+        this._frameQueries.push({ label: pass.name, query });
+    }
+
+    private _renderTimedCPU(pass: Pass, render: Pass["render"], args: Parameters<Pass["render"]>) {
+        const start = performance.now();
+        render.apply(pass, args);
+        this._frameTimes.set(pass.name, (this._frameTimes.get(pass.name) ?? 0) + performance.now() - start);
+    }
+
+    /** Commits frames in order as long as all of their queries have a result. */
+    private _collectGPU() {
+        const gl = this._gl!;
+        // a disjoint event (clock change, context switch) invalidates everything in flight
+        if (gl.getParameter(this._ext!.GPU_DISJOINT_EXT)) {
+            this._pending.forEach(frame => frame.forEach(({ query }) => gl.deleteQuery(query)));
+            this._pending = [];
+            return;
+        }
+
+        while (this._pending.length) {
+            const frame = this._pending[0];
+            const ready = frame.every(({ query }) => gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE));
+            if (!ready && this._pending.length <= MAX_PENDING_FRAMES) break;
+
+            this._pending.shift();
+            const totals = new Map<string, number>();
+            frame.forEach(({ label, query }) => {
+                if (ready) totals.set(label, (totals.get(label) ?? 0) + gl.getQueryParameter(query, gl.QUERY_RESULT) * 1e-6);
+                gl.deleteQuery(query);
+            });
+            if (ready) this._commit(totals);
+        }
+    }
+
+    private _commit(totals: Map<string, number>) {
+        let frameTotal = 0;
+        totals.forEach((ms, label) => {
+            frameTotal += ms;
+            this._push(label, ms);
+        });
+        this._push("Total", frameTotal);
+    }
+
+    private _push(label: string, ms: number) {
+        const history = this._history.get(label) ?? [];
+        history.push(ms);
+        if (history.length > HISTORY) history.shift();
+        this._history.set(label, history);
+        this.timings[label] = history.reduce((sum, value) => sum + value, 0) / history.length;
+    }
+
+    /** One graph per pass name seen so far, Total first; passes no longer in the pipeline read 0. */
+    private _updateMonitors() {
+        if (!this._folder) return;
+
+        Object.keys(this.timings).forEach(label => {
+            if (!this._isTracked(label)) this.timings[label] = 0;
+        });
+
+        ["Total", ...Object.keys(this.timings).filter(label => label !== "Total")].forEach(label => {
+            if (this._monitored.has(label) || this.timings[label] === undefined) return;
+            this._monitored.add(label);
+            this._folder!.addBinding(this.timings, label, {
+                readonly: true,
+                view: "graph",
+                min: 0,
+                max: GRAPH_MAX_MS,
+                format: (v: number) => `${v.toFixed(3)} ms`,
+            });
+        });
+    }
+
+    private _isTracked(label: string): boolean {
+        return label === "Total" || [...this._originals.keys()].some(pass => pass.name === label);
+    }
+
+    private _restore() {
+        this._originals.forEach((render, pass) => { pass.render = render; });
+        this._originals.clear();
+    }
+
+    private _clear() {
+        const gl = this._gl;
+        if (gl) [...this._pending, this._frameQueries].forEach(frame => frame.forEach(({ query }) => gl.deleteQuery(query)));
+        this._pending = [];
+        this._frameQueries = [];
+        this._frameTimes = new Map();
+        this._history.clear();
+        Object.keys(this.timings).forEach(label => { this.timings[label] = 0; });
+    }
+}
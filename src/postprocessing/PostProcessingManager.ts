@@ -1,8 +1,24 @@
-import { BlendFunction, BloomEffect, BrightnessContrastEffect, DepthDownsamplingPass, EdgeDetectionMode, Effect, EffectComposer, EffectPass, NormalPass, Pass, RenderPass, SepiaEffect, SMAAEffect, SMAAPreset, SSAOEffect, VignetteEffect } from "postprocessing";
-import { Camera, Color, OrthographicCamera, PerspectiveCamera, Scene, Texture, TextureLoader, Vector2, WebGLRenderer } from "three";
-import type { TabPageApi } from "tweakpane";
-import { Params } from "./Constants";
-import { FinalEffect } from './FinalEffect';
+import { DepthDownsamplingPass, DepthPickingPass, Effect, EffectComposer, LookupTexture, LUT3DEffect, NormalPass, Pass, RenderPass } from "postprocessing";
+import { Camera, DirectionalLight, HalfFloatType, Light, NoToneMapping, OrthographicCamera, PerspectiveCamera, Scene, Texture, Vector2, WebGLRenderer, type ToneMapping } from "three";
+import type { FolderApi, ListBladeApi, TabPageApi } from "tweakpane";
+import { assetManager } from "../AssetManager";
+import { BUFFER_VIEWS, BufferStripLabels, bufferViewOptions, BufferViewPass } from "./BufferView";
+import { COMPARE_MODES, COMPARE_STATIC_PARAMS, CompareOverlay, compareSideOptions, resolveCompareSide, type CompareMode, type CompareSide, type CompareSideSpec } from "./Comparison";
+import { DEFAULT_QUALITY, Params } from "./Constants";
+import { DetachableEffectPass } from './DetachableEffectPass';
+import { effectRegistry, type CaptureRegion, type EffectContext, type EffectDefinition, type EffectHelpers, type EffectParam, type HelperBuffer, type QualitySettings } from "./EffectRegistry";
+import { EffectOrderList } from './EffectOrderList';
+import { partitionEffects, type PassGroup } from './EffectPartition';
+import { downloadText, pickFile } from './FileUtils';
+import { createGrainTexture, FinalEffect } from './FinalEffect';
+import { GodRaySource } from './GodRaySource';
+import { PassProfiler } from './PassProfiler';
+import { bakeCube, isLUTFile, loadLUT, parseLUT } from './LUTUtils';
+import { assignParams, BUILTIN_PRESETS, loadStoredPresets, parsePreset, PRESET_VERSION, serializePreset, storePreset, type PostProcessingPreset } from './Presets';
+import type { RetroEffect } from './RetroEffect';
+import { formatRenderGraph, helperDependencies, resolveHelpers, type RenderGraph } from './RenderGraph';
+import { extractPalette, PALETTES } from './RetroUtils';
+import { VelocityPass } from './VelocityPass';
 
 export interface PostProcessingInterface {
     renderer: WebGLRenderer;
@@ -13,22 +29,15 @@ export interface PostProcessingInterface {
     height?: number;
 }
 
-const DEFAULT_POSTPROCESSING_ORDER = {
-    SMAA: 1,
-    SSR: 2,
-    SSAO: 3,
-    DoF: 4,
-    MotionBlur: 5,
-    ChromaticAberration: 6,
-    Bloom: 7,
-    GodRays: 8,
-    Vignette: 9,
-    ToneMapping: 10,
-    LUT: 11,
-    FilmGrain: 12,
-    Pixelation: 13,
-    Color: 14,
-    Final: 15,
+type ChainEntry = { key: string; effect: Effect };
+type BuiltCompareSide = CompareSide & { definitions: EffectDefinition<any>[]; passes: Pass[]; effectPasses: DetachableEffectPass[] };
+
+// _helpers key of the pass producing each buffer
+const HELPER_PASS_KEYS: Record<HelperBuffer, keyof EffectHelpers> = {
+    normal: "normalPass",
+    normalDepth: "depthDownPass",
+    depthPicking: "depthPickingPass",
+    velocity: "velocityPass",
 };
 
 export default class PostProcessingManager {
@@ -39,25 +48,73 @@ export default class PostProcessingManager {
     private _camera!: OrthographicCamera | PerspectiveCamera | Camera;
     private _assets: Record<string, Texture | null> = {};
 
-    // effects
+    // effects (built from the effect registry on first enable)
+    // helper passes are created on first use and only scheduled while an enabled effect reads them
     private _helpers: Record<string, Pass | DepthDownsamplingPass> = {};
     private _effects: Record<string, Effect> = {};
+    private _context: EffectContext;
 
     // passes
-    private _normalPass!: NormalPass;
-    private _effectsPass: EffectPass | null = null;
+    private _passes: Pass[] = [];              // main chain, as the composer runs it
+    private _installedPasses: Pass[] = [];     // every pass added to the composer (main + compare sides)
+    private _effectPasses: DetachableEffectPass[] = [];
+    private _passLayout: PassGroup<ChainEntry>[] = [];
+    private _renderGraph: RenderGraph = { helpers: [], passes: [] };
+    private _orderList: EffectOrderList | null = null;
+
+    // god rays (one GodRaysEffect per selected light)
+    private _godRaySources: GodRaySource[] = [];
+
+    // renderer tone mapping parked while the ToneMapping stage runs
+    private _rendererToneMapping: ToneMapping | null = null;
+
+    // lut (request counter drops stale async loads)
+    private _lutState = { name: "" };
+    private _lutRequest = 0;
+
+    // retro palette extracted from an uploaded image
+    private _customPalette: number[] = [];
+
+    // presets
+    private _defaultPreset: PostProcessingPreset;
+    private _presetState = { selected: "LateNight", name: "My Preset" };
+    private _debugRoot: TabPageApi | null = null;
+    private _syncingPane = false;
+
+    // A/B comparison (sides share the effect instances, only the pass lists differ)
+    private _compare = { mode: "off" as CompareMode, a: "raw" as CompareSideSpec, b: "chain" as CompareSideSpec, split: 0.5, flickerRate: 2 };
+    private _compareSides: BuiltCompareSide[] = [];
+    private _compareOverlay: CompareOverlay | null = null;
+    private _compareFolder: FolderApi | null = null;
+    private _compareLists: ListBladeApi<string>[] = [];
+    private _compareClock = 0;
+    private _size = new Vector2();
+
+    // debug view: "final", a BUFFER_VIEWS key or "effect:<key>"; ignored while comparing
+    private _view = { target: "final", thumbnails: false, depthRange: 30 };
+    private _bufferView: BufferViewPass | null = null;
+    private _viewFlags: Record<string, boolean> | null = null;   // null: the main chain renders
+    private _viewPasses: Pass[] = [];
+    private _viewEffectPasses: DetachableEffectPass[] = [];
+    private _viewLabels: BufferStripLabels | null = null;
+    private _viewList: ListBladeApi<string> | null = null;
+    private _viewFolder: FolderApi | null = null;
+
+    private _quality: QualitySettings = { ...DEFAULT_QUALITY };
+    private _captureRegion: CaptureRegion | null = null;
+
+    private _lastTime: number | null = null;
+    private _unsubscribeRegistry: () => void;
 
     // utils
-    private _effectEnabled: Record<string, boolean> = {
-        smaa: true,
-        ssao: true,
-        bloom: true,
-        vignette: true,
-        color: true,
-        sepia: true,
-        final: true,
-    };
+    // key order is the chain order (registry order slots)
+    private _effectEnabled: Record<string, boolean> = Object.fromEntries(
+        effectRegistry.list().map(definition => [definition.key, definition.enabled ?? true])
+    );
+    // flags ctx.isEnabled answers from: the main ones, or a compare side's while it builds/renders
+    private _activeFlags: Record<string, boolean> = this._effectEnabled;
     public enabled: boolean = true;
+    public readonly profiler: PassProfiler;
 
     constructor({
         renderer,
@@ -67,8 +124,14 @@ export default class PostProcessingManager {
         height = window.innerHeight
     }: PostProcessingInterface) {
         this._reset();
+        // untouched Params + flags: the base every preset is applied on top of
+        this._defaultPreset = this.exportPreset("Default");
         this._init({ renderer, scene, camera, width, height });
+        this.profiler = new PassProfiler(this._renderer);
+        this._context = this._createContext();
+        this._unsubscribeRegistry = effectRegistry.onRegister(this._onEffectRegistered);
         this._loadPostProcessingAssets();
+        this._setupLUTDrop();
     }
 
     //#region Init
@@ -84,36 +147,41 @@ export default class PostProcessingManager {
         this._scene = options.scene;
         this._camera = options.camera;
 
-        this._composer = new EffectComposer(this._renderer);
+        // half float buffers keep the chain in linear HDR until tone mapping
+        this._composer = new EffectComposer(this._renderer, { frameBufferType: HalfFloatType });
         this._composer.setSize(options.width || window.innerWidth, options.height || window.innerHeight);
     }
 
-    private _loadPostProcessingAssets(): void {
-        // load assets (SMAA images + grain)
-        const loader = new TextureLoader();
-        const assetUrls: Record<string, string> = {
-            "smaa-search": "/images/smaa-search.png",
-            "smaa-area": "/images/smaa-area.png",
-            "grainTexture": "/images/grainTexture.png"
-        };
-        this._assets = {
-            "smaa-search": null,
-            "smaa-area": null,
-            "grainTexture": null
+    private _createContext(): EffectContext {
+        const manager = this;
+        return {
+            manager,
+            get renderer() { return manager._renderer; },
+            get scene() { return manager._scene; },
+            get camera() { return manager._camera; },
+            get assets() { return manager._assets; },
+            get helpers() { return manager._helpers as unknown as EffectHelpers; },
+            get godRaySources() { return manager._godRaySources; },
+            get quality() { return manager._quality; },
+            getEffect: <T extends Effect>(key: string) => manager._ensureEffect(key) as T | undefined,
+            isEnabled: (key: string) => Boolean(manager._activeFlags[key]),
         };
+    }
 
-        Object.entries(assetUrls).forEach(([key, url]) => {
-            loader.load(
-                url,
-                (texture) => {
-                    this._assets[key] = texture;
-                    if (Object.values(this._assets).every(Boolean)) {
-                        this.setupPostProcessing();
-                    }
-                },
-                undefined,
-                (err) => console.error(`Error loading texture ${key}:`, err)
-            );
+    private _loadPostProcessingAssets(): void {
+        // every asset has a way out, so the pipeline is always built:
+        // missing SMAA images switch the smaa stage to FXAA, missing grain is generated
+        Promise.all([
+            assetManager.loadTexture("smaa-search", "/images/smaa-search.png"),
+            assetManager.loadTexture("smaa-area", "/images/smaa-area.png"),
+            assetManager.loadTexture("grainTexture", "/images/grainTexture.png", { fallback: () => createGrainTexture() }),
+        ]).then(([searchImage, areaImage, grainTexture]) => {
+            this._assets = {
+                "smaa-search": searchImage,
+                "smaa-area": areaImage,
+                "grainTexture": grainTexture
+            };
+            this.setupPostProcessing();
         });
     }
     //#endregion
@@ -130,148 +198,267 @@ export default class PostProcessingManager {
 
     private setupBasics(): void {
         this._helpers.renderPass = new RenderPass(this._scene, this._camera);
+    }
+
+    private _setupEffects(): void {
+        if (!this._composer) return;
 
-        this._normalPass = new NormalPass(this._scene, this._camera);
-        this._helpers.normalPass = this._normalPass as NormalPass;
+        // effects are created by the builder as they get enabled
+        this._buildPostProcessingPipeline();
+    }
 
-        if (this._renderer.capabilities.isWebGL2) {
-            this._helpers.depthDownPass = new DepthDownsamplingPass({
-                normalBuffer: this._normalPass.texture,
-                resolutionScale: 0.5
-            });
+    /** Creates the pass producing `buffer` (and the helpers it reads) if it does not exist yet. */
+    private _ensureHelper(buffer: HelperBuffer): Pass | undefined {
+        const key = HELPER_PASS_KEYS[buffer];
+        if (this._helpers[key]) return this._helpers[key];
+        helperDependencies(buffer).forEach(dependency => this._ensureHelper(dependency));
+
+        let pass: Pass | undefined;
+        switch (buffer) {
+            case "normal":
+                pass = new NormalPass(this._scene, this._camera);
+                break;
+            case "normalDepth":
+                // DepthDownsamplingPass needs WebGL2; readers fall back to the plain normal buffer
+                if (!this._renderer.capabilities.isWebGL2) return undefined;
+                pass = new DepthDownsamplingPass({
+                    normalBuffer: (this._helpers.normalPass as NormalPass).texture,
+                    resolutionScale: 0.5
+                });
+                break;
+            case "depthPicking":
+                pass = new DepthPickingPass();
+                break;
+            case "velocity":
+                pass = new VelocityPass(this._scene, this._camera, { resolutionScale: 0.5 });
+                break;
         }
+
+        if (pass) this._helpers[key] = pass;
+        return pass;
     }
 
-    private _setupEffects(): void {
-        if (!this._composer) return;
-        this._effects.smaa = new SMAAEffect({
-            preset: SMAAPreset.HIGH,
-            edgeDetectionMode: EdgeDetectionMode.COLOR,
-            ...{
-                searchImage: this._assets["smaa-search"]!,
-                areaImage: this._assets["smaa-area"]!
-            }
-        });
+    /** Instance of a registered effect, created (with its helpers and Params) on first request. */
+    private _ensureEffect(key: string): Effect | undefined {
+        if (this._effects[key]) return this._effects[key];
 
-        this._effects.ssao = new SSAOEffect(this._camera, this._normalPass.texture, {
-            blendFunction: BlendFunction.MULTIPLY,
-            distanceScaling: true,
-            depthAwareUpsampling: true,
-            normalDepthBuffer: this._helpers.depthDownPass ? (this._helpers.depthDownPass as DepthDownsamplingPass).texture : undefined,
-            samples: 9,
-            rings: 7,
-            distanceThreshold: 0.02,
-            distanceFalloff: 0.0025,
-            rangeThreshold: 0.0003,
-            rangeFalloff: 0.0001,
-            luminanceInfluence: 0.7,
-            minRadiusScale: 0.33,
-            radius: Params.ssaoRadius,
-            intensity: Params.ssaoIntensity,
-            bias: Params.ssaoBias,
-            fade: 0.01,
-            resolutionScale: 0.5
-        });
-        this._effects.ssao.blendMode.opacity.value = Params.ssaoOpacity;
-
-        this._effects.bloom = new BloomEffect({
-            blendFunction: BlendFunction.ADD,
-            luminanceThreshold: Params.threshold,
-            luminanceSmoothing: 0.01,
-            resolutionScale: Params.radius,
-            intensity: Params.strength,
-            mipmapBlur: true
-        });
-        this._effects.vignette = new VignetteEffect({
-            eskil: true,
-            offset: 0.2,
-            darkness: 1.,
-            blendFunction: BlendFunction.NORMAL
-        });
-        this._effects.color = new BrightnessContrastEffect({
-            brightness: .2,
-            contrast: 0.05,
-            blendFunction: BlendFunction.SOFT_LIGHT
-        });
-        this._effects.sepia = new SepiaEffect({
-            intensity: 1,
-            blendFunction: BlendFunction.SOFT_LIGHT
-        });
+        const definition = effectRegistry.get(key);
+        if (!definition?.create || !this._helpers.renderPass) return undefined;
 
-        const sepia = this._effects.sepia as SepiaEffect;
-        sepia.intensity = Params.sepiaIntensity;
-
-        this._effects.final = new FinalEffect({
-            grain: this._assets["grainTexture"]!,
-            noise: Params.noise,
-            grainScale: Params.grainScale,
-            vignetteCenter: new Vector2(Params.vignetteCenter.x, Params.vignetteCenter.y),
-            vignetteRadius: Params.vignetteRadius,
-            vignetteStrength: Params.vignetteStrength,
-            vignettePower: Params.vignettePower,
-            vignetteColor: new Color(
-                Params.vignetteColor.r,
-                Params.vignetteColor.g,
-                Params.vignetteColor.b
-            ),
-            blendFunction: (() => {
-                switch (Params.finalBlend) {
-                    case "NORMAL": return BlendFunction.NORMAL;
-                    case "SCREEN": return BlendFunction.SCREEN;
-                    case "ADD": return BlendFunction.ADD;
-                    case "MULTIPLY": return BlendFunction.MULTIPLY;
-                    case "OVERLAY": return BlendFunction.OVERLAY;
-                    case "SOFT_LIGHT": return BlendFunction.SOFT_LIGHT;
-                    default: return BlendFunction.SCREEN;
-                }
-            })()
-        });
+        definition.requires?.forEach(buffer => this._ensureHelper(buffer));
+        const effect = definition.create(this._context);
+        this._effects[key] = effect;
+        definition.params?.forEach(param => this._applyParam(effect, param));
+        definition.quality?.(effect, this._quality, this._context);
+        return effect;
+    }
 
-        // enable all effects by default
-        Object.keys(this._effects).forEach(key => {
-            this._effectEnabled[key] = true;
-        });
+    private _applyParam(effect: Effect, param: EffectParam<any>, value = (Params as Record<string, unknown>)[param.key]): void {
+        // the union of apply signatures is not callable as-is; the value comes from Params untyped anyway
+        const apply = param.apply as ((effect: Effect, value: unknown, ctx: EffectContext) => void) | undefined;
+        apply?.(effect, value, this._context);
+    }
+
+    /** Third-party registration after construction: add the flag, the instance and the panel folder. */
+    private _onEffectRegistered = (definition: EffectDefinition<any>) => {
+        // slot it in by order value without undoing any user reordering
+        const order = Object.keys(this._effectEnabled);
+        const index = order.findIndex(key => (effectRegistry.get(key)?.order ?? Infinity) > definition.order);
+        order.splice(index < 0 ? order.length : index, 0, definition.key);
+        this._writeEffectFlags(order, { ...this._effectEnabled, [definition.key]: definition.enabled ?? true });
 
+        if (this._debugRoot) this._addEffectFolder(this._debugRoot, definition, new Map());
+        this._updateCompareOptions();
+        this._updateViewOptions();
         this._buildPostProcessingPipeline();
+    };
+
+    /** Rewrites the flags in place (pane bindings hold the object) in the given chain order. */
+    private _writeEffectFlags(order: string[], enabled: Record<string, boolean>): void {
+        Object.keys(this._effectEnabled).forEach(key => delete this._effectEnabled[key]);
+        order.forEach(key => { this._effectEnabled[key] = enabled[key] ?? false; });
     }
     //#endregion
 
 
     //#region Builder
-    private _buildPostProcessingPipeline(
-        customOrder: Record<string, number> = {}
-    ): void {
-        if (!this._composer) return;
-        const order = { ...DEFAULT_POSTPROCESSING_ORDER, ...customOrder };
-
-        // sort effects by order value
-        this._effects = Object.fromEntries(
-            Object.entries(this._effects).sort(([, a], [, b]) => {
-                const orderA = order[a.name as keyof typeof order] ?? 999;
-                const orderB = order[b.name as keyof typeof order] ?? 999;
-                return orderA - orderB;
-            })
-        );
+    private _buildPostProcessingPipeline(): void {
+        // helpers only exist once the assets are in
+        if (!this._composer || !this._helpers.renderPass) return;
 
-        // setup effect pass
-        // remove previous pass if it exists
-        if (this._effectsPass) {
-            this._composer.removePass(this._effectsPass);
-            this._effectsPass.dispose?.();
-        }
+        // previous passes go, their effects stay: this build reuses the instances
+        this._effectPasses.forEach(pass => this._releaseEffectPass(pass));
+        this._compareSides.forEach(side => side.effectPasses.forEach(pass => this._releaseEffectPass(pass)));
+        this._viewEffectPasses.forEach(pass => this._releaseEffectPass(pass));
 
-        const activeEffects: Effect[] = Object.entries(this._effectEnabled)
+        const build = this._createPasses(this._effectEnabled);
+        this._passLayout = build.layout;
+        this._effectPasses = build.effectPasses;
+        this._passes = build.passes;
+
+        // render graph: only the helpers some enabled effect reads (plus what those read)
+        const { definitions: activeDefinitions, helpers } = build;
+        this._renderGraph = {
+            helpers: helpers.map(({ buffer, pass }) => ({
+                buffer,
+                pass: pass.name,
+                consumers: [
+                    ...activeDefinitions.filter(d => d.requires?.includes(buffer)).map(d => d.key),
+                    ...helpers.filter(h => helperDependencies(h.buffer).includes(buffer)).map(h => h.buffer),
+                ],
+            })),
+            passes: this._passLayout.map(group => ({
+                effects: group.entries.map(entry => entry.effect.name),
+                keys: [...new Set(group.entries.map(entry => entry.key))],
+                reason: group.reason,
+                reads: [...new Set(group.entries.flatMap(entry => effectRegistry.get(entry.key)?.requires ?? []))],
+            })),
+        };
+
+        // A/B sides get their own pass lists around the same effect instances
+        this._compareSides = this._compare.mode === "off" ? [] : [this._compare.a, this._compare.b].map(spec => {
+            const side = resolveCompareSide(spec, this._effectEnabled, this.getPresets(), this._defaultPreset);
+            const sideBuild = this._createPasses(side.enabled);
+            return { ...side, definitions: sideBuild.definitions, passes: sideBuild.passes, effectPasses: sideBuild.effectPasses };
+        });
+
+        const view = this._compareSides.length ? null : this._createViewPasses();
+        this._viewFlags = view?.flags ?? null;
+        this._viewPasses = view?.passes ?? [];
+        this._viewEffectPasses = view?.effectPasses ?? [];
+        if (!view) this._viewLabels?.hide();
+
+        // helpers and the render pass are reused too, so nothing here is disposed.
+        // every list is added once (size, depth texture); render swaps the list it runs
+        this._composer.removeAllPasses();
+        this._installedPasses = [...new Set([...this._passes, ...this._compareSides.flatMap(side => side.passes), ...this._viewPasses])];
+        this._installedPasses.forEach(pass => this._composer!.addPass(pass));
+        this._usePasses(this._activePasses);
+        this.profiler.setPasses(this._installedPasses);
+
+        // onBuild hooks of the chain that renders run last
+        this._runOnBuild(activeDefinitions, this._effectEnabled);
+        if (view) this._runOnBuild(view.definitions, view.flags);
+        this._syncRendererToneMapping();
+        this._orderList?.update(this._orderItems());
+    }
+
+    /**
+     * Instances, EffectPasses and helpers for one set of flags (key order is the
+     * chain order). Nothing is added to the composer.
+     */
+    private _createPasses(flags: Record<string, boolean>, extraRequires: HelperBuffer[] = []) {
+        const definitions = Object.entries(flags)
             .filter(([_, enabled]) => enabled)
-            .map(([key]) => this._effects[key as keyof typeof this._effects]);
+            .map(([key]) => effectRegistry.get(key))
+            .filter((definition): definition is EffectDefinition<any> => Boolean(definition));
+
+        definitions.forEach(definition => this._ensureEffect(definition.key));
+        this._runOnBuild(definitions, flags);
+
+        const chain: ChainEntry[] = definitions.flatMap(definition => {
+            const effect = this._effects[definition.key];
+            const effects = definition.resolve ? definition.resolve(effect, this._context) : effect ? [effect] : [];
+            return effects.map(e => ({ key: definition.key, effect: e }));
+        });
+
+        const layout = partitionEffects(chain);
+        const effectPasses = layout.map(group => {
+            const pass = new DetachableEffectPass(this._camera, ...group.entries.map(entry => entry.effect));
+            // the profiler labels its graphs by pass name
+            pass.name = `EffectPass(${[...new Set(group.entries.map(entry => entry.key))].join(", ")})`;
+            return pass;
+        });
+
+        const requested = [...definitions.flatMap(definition => definition.requires ?? []), ...extraRequires];
+        const helpers = resolveHelpers(requested)
+            .map(buffer => ({ buffer, pass: this._ensureHelper(buffer) }))
+            .filter((helper): helper is { buffer: HelperBuffer; pass: Pass } => Boolean(helper.pass));
+
+        const passes: Pass[] = [this._helpers.renderPass as RenderPass, ...helpers.map(helper => helper.pass), ...effectPasses];
+        return { definitions, layout, effectPasses, helpers, passes };
+    }
 
-        this._effectsPass = new EffectPass(this._camera, ...activeEffects);
-        this._effectsPass.renderToScreen = true;
-        this._composer.reset();
-        // add passes in order
-        this._composer.addPass(this._helpers.renderPass as RenderPass);
-        this._composer.addPass(this._normalPass);
-        if (this._helpers.depthDownPass) this._composer.addPass(this._helpers.depthDownPass as DepthDownsamplingPass);
-        this._composer.addPass(this._effectsPass);
+    /**
+     * Pass list of the debug view, or null when nothing but the chain output is
+     * shown. Buffers read from an effect switch it on; "effect:<key>" runs that
+     * effect alone. The scene copy sits right behind the RenderPass.
+     */
+    private _createViewPasses() {
+        const { target, thumbnails } = this._view;
+        if (target === "final" && !thumbnails) return null;
+
+        const [kind, arg] = target.split(/:(.*)/s);
+        const buffer = BUFFER_VIEWS[target];
+        const flags = kind === "effect"
+            ? Object.fromEntries(Object.keys(this._effectEnabled).map(key => [key, key === arg]))
+            : { ...this._effectEnabled, ...(buffer?.effect ? { [buffer.effect]: true } : {}) };
+
+        // the strip shows every helper buffer (forced on) and the effect buffers this chain produces
+        const strip = thumbnails
+            ? Object.keys(BUFFER_VIEWS).filter(key => !BUFFER_VIEWS[key].effect || flags[BUFFER_VIEWS[key].effect!])
+            : [];
+        const requires = [...strip, target].flatMap(key => BUFFER_VIEWS[key]?.requires ?? []);
+
+        const build = this._createPasses(flags, requires);
+        this._bufferView ??= new BufferViewPass(this._camera, this._context);
+        this._bufferView.view = buffer ? target : "final";
+        this._bufferView.thumbnails = strip;
+
+        const [renderPass, ...rest] = build.passes;
+        return {
+            flags,
+            definitions: build.definitions,
+            effectPasses: build.effectPasses,
+            passes: [renderPass, this._bufferView.sceneCopy, ...rest, this._bufferView],
+        };
+    }
+
+    /** onBuild hooks see `flags` through ctx.isEnabled. */
+    private _runOnBuild(definitions: EffectDefinition<any>[], flags: Record<string, boolean>): void {
+        this._activeFlags = flags;
+        definitions.forEach(definition => {
+            const effect = this._effects[definition.key];
+            if (effect) definition.onBuild?.(effect, this._context);
+        });
+        this._activeFlags = this._effectEnabled;
+    }
+
+    /** Makes `passes` the list the composer runs; only the last one renders to screen. */
+    private _usePasses(passes: Pass[]): void {
+        this._composer!.passes = passes;
+        passes.forEach((pass, i) => { pass.renderToScreen = i === passes.length - 1; });
+    }
+
+    /** Frees an EffectPass of a previous build; the effects it held live on. */
+    private _releaseEffectPass(pass: DetachableEffectPass): void {
+        pass.detach();
+        pass.dispose();
+    }
+
+    /** Order list rows: every registered effect in chain order with the pass it landed in. */
+    private _orderItems() {
+        return Object.entries(this._effectEnabled).map(([key, enabled]) => {
+            const pass = this._passLayout.findIndex(group => group.entries.some(entry => entry.key === key));
+            return {
+                key,
+                title: effectRegistry.get(key)?.title ?? key,
+                enabled,
+                pass: pass < 0 ? null : pass,
+            };
+        });
+    }
+
+    /** Never tone-map twice: the renderer's own operator is parked while the ToneMapping stage is active. */
+    private _syncRendererToneMapping(): void {
+        if (this._effectEnabled.toneMapping) {
+            if (this._rendererToneMapping !== null) return;
+            this._rendererToneMapping = this._renderer.toneMapping;
+            this._renderer.toneMapping = NoToneMapping;
+        } else if (this._rendererToneMapping !== null) {
+            this._renderer.toneMapping = this._rendererToneMapping;
+            this._rendererToneMapping = null;
+        }
     }
 
     //#endregion
@@ -283,138 +470,661 @@ export default class PostProcessingManager {
     /** Enable/disable one effect (and helper passes if needed). */
     public setEffectEnabled(effect: keyof typeof this._effectEnabled, enabled: boolean) {
         this._effectEnabled[effect] = enabled;
+        // pane refresh after a preset: the preset already rebuilt once
+        if (!this._syncingPane) this._buildPostProcessingPipeline();
+    }
+
+    /** Effect keys in chain order (enabled or not). */
+    public getEffectOrder(): string[] {
+        return Object.keys(this._effectEnabled);
+    }
+
+    /**
+     * Reorders the chain; unknown keys are ignored and effects left out keep
+     * their relative order after the listed ones. Passes are re-partitioned.
+     */
+    public setEffectOrder(order: string[]) {
+        this._writeEffectFlags(this._resolveOrder(order), { ...this._effectEnabled });
         this._buildPostProcessingPipeline();
     }
 
+    /** Moves one effect to `index` in the chain. */
+    public moveEffect(key: string, index: number) {
+        const order = this.getEffectOrder().filter(k => k !== key);
+        if (order.length === this.getEffectOrder().length) return;
+        order.splice(Math.max(0, Math.min(index, order.length)), 0, key);
+        this.setEffectOrder(order);
+    }
+
+    private _resolveOrder(order: string[]): string[] {
+        const known = Object.keys(this._effectEnabled);
+        return [
+            ...order.filter((key, i) => known.includes(key) && order.indexOf(key) === i),
+            ...known.filter(key => !order.includes(key)),
+        ];
+    }
+
+    /** Rebuilds the passes, e.g. after changing which instances an effect resolves to. */
+    public rebuild() {
+        this._buildPostProcessingPipeline();
+    }
+
+    /** Helper passes and effect passes of the current build, with who reads what. */
+    public getRenderGraph(): RenderGraph {
+        return this._renderGraph;
+    }
+
+    public printRenderGraph(): void {
+        console.log(formatRenderGraph(this._renderGraph));
+    }
+
+    /** Live instance of a registered effect (undefined until it is first enabled). */
+    public getEffect<T extends Effect>(key: string): T | undefined {
+        return this._effects[key] as T | undefined;
+    }
+
+    /** Snapshot of every enabled flag, parameter, blend mode and the effect order. */
+    public exportPreset(name = this._presetState.name): PostProcessingPreset {
+        return {
+            version: PRESET_VERSION,
+            name,
+            enabled: { ...this._effectEnabled },
+            order: Object.keys(this._effectEnabled),
+            params: structuredClone(Params),
+        };
+    }
+
+    /** Untouched Params and flags, the base every preset is applied on top of. */
+    public get defaultPreset(): PostProcessingPreset { return this._defaultPreset; }
+
+    /** Applies a preset on top of the defaults: flags and order, Params, then the live effects. */
+    public applyPreset(preset: PostProcessingPreset) {
+        const base = this._defaultPreset;
+
+        // flags are rewritten in place, their key order is the chain order
+        this._writeEffectFlags(this._resolveOrder(preset.order), { ...base.enabled, ...preset.enabled });
+
+        assignParams(Params, base.params);
+        assignParams(Params, preset.params);
+        this._presetState.name = preset.name;
+
+        this._applyParams();
+        this._buildPostProcessingPipeline();
+
+        this._syncingPane = true;
+        this._debugRoot?.refresh();
+        this._syncingPane = false;
+    }
+
+    /**
+     * Writes `values` into Params and pushes only those keys to the live
+     * effects (timeline playback, scripted changes). The pane is not refreshed.
+     */
+    public setParams(values: Record<string, unknown>) {
+        assignParams(Params, values);
+        effectRegistry.list().forEach(definition => {
+            const effect = this._effects[definition.key];
+            if (!effect) return;
+            definition.params?.forEach(param => {
+                if (param.key in values) this._applyParam(effect, param);
+            });
+        });
+    }
+
+    /** Pushes the current Params into the live effects (everything the debug panel would set). */
+    private _applyParams() {
+        effectRegistry.list().forEach(definition => {
+            const effect = this._effects[definition.key];
+            if (effect) definition.params?.forEach(param => this._applyParam(effect, param));
+        });
+        this._godRaySources.forEach(source => source.applyParams());
+    }
+
+    /** Built-in presets plus the ones saved in localStorage (saved ones win on a name clash). */
+    public getPresets(): Record<string, PostProcessingPreset> {
+        return { ...BUILTIN_PRESETS, ...loadStoredPresets() };
+    }
+
+    public savePreset(name = this._presetState.name): PostProcessingPreset {
+        const preset = this.exportPreset(name);
+        storePreset(preset);
+        return preset;
+    }
+
+    public exportPresetFile(name = this._presetState.name): void {
+        downloadText(`${name}.json`, serializePreset(this.exportPreset(name)), "application/json");
+    }
+
+    /** Parses, stores and applies a preset file; returns it, or null if it could not be read. */
+    public async importPresetFile(file: Blob): Promise<PostProcessingPreset | null> {
+        try {
+            const preset = parsePreset(await file.text());
+            storePreset(preset);
+            this.applyPreset(preset);
+            return preset;
+        } catch (err) {
+            console.error("Error importing preset:", err);
+            return null;
+        }
+    }
+
+    /** Loads a .cube / .3dl LUT from a url (e.g. public/luts) into the LUT stage. */
+    public async loadLUT(url: string): Promise<void> {
+        const request = ++this._lutRequest;
+        try {
+            const lut = await loadLUT(url);
+            // a newer load or a drop won meanwhile
+            if (request !== this._lutRequest) return lut.dispose();
+            this._setLUT(url.split("/").pop() ?? url, lut);
+        } catch (err) {
+            console.error(`Error loading LUT ${url}:`, err);
+        }
+    }
+
+    /** Name of the LUT currently in the LUT stage. */
+    public get lutState(): { readonly name: string } { return this._lutState; }
+
+    /** Bakes the active colour effects (brightness/contrast, sepia, FinalEffect colour) into .cube text. */
+    public bakeGradeToCube(size = Params.lutBakeSize): string | null {
+        if (!this._final) return null;
+
+        const colourEffects = ["color", "sepia", "final"]
+            .filter(key => this._effectEnabled[key] && this._effects[key])
+            .map(key => this._effects[key]);
+
+        return this._final.withColourOnly(() => bakeCube(this._renderer, colourEffects, size, "PostProcessing Grade"));
+    }
+
+    public exportGradeAsCube(fileName = "grade.cube"): void {
+        const cube = this.bakeGradeToCube();
+        if (cube) downloadText(fileName, cube);
+    }
+
+    private _setLUT(name: string, lut: LookupTexture): void {
+        if (!this._lut) return;
+        this._lut.lut.dispose();
+        this._lut.lut = lut;
+        this._lutState.name = name;
+    }
+
+    /** Drop a .cube / .3dl file onto the canvas to load and enable it. */
+    private _setupLUTDrop(): void {
+        const canvas = this._renderer.domElement;
+        canvas.addEventListener("dragover", this._onLUTDragOver);
+        canvas.addEventListener("drop", this._onLUTDrop);
+    }
+
+    private _onLUTDragOver = (ev: DragEvent) => {
+        ev.preventDefault();
+    };
+
+    private _onLUTDrop = async (ev: DragEvent) => {
+        const file = ev.dataTransfer?.files[0];
+        if (!file || !isLUTFile(file.name)) return;
+        ev.preventDefault();
+
+        try {
+            const lut = parseLUT(file.name, await file.text());
+            // creating the stage starts loading Params.lutFile; the bump drops that load
+            this._ensureEffect("lut");
+            this._lutRequest++;
+            this._setLUT(file.name, lut);
+            this.setEffectEnabled("lut", true);
+        } catch (err) {
+            console.error(`Error parsing LUT ${file.name}:`, err);
+        }
+    };
+
+    /** Picks a built-in retro palette, or CUSTOM for the last one extracted from an image. */
+    public setRetroPalette(name: string) {
+        Params.retroPaletteName = name;
+        this._retro?.setPalette(name === "CUSTOM" ? this._customPalette : PALETTES[name] ?? []);
+    }
+
+    /** Median-cut palette from an image file, applied as the CUSTOM retro palette. */
+    public async loadRetroPaletteFromImage(file: Blob): Promise<void> {
+        try {
+            const bitmap = await createImageBitmap(file);
+            this._customPalette = extractPalette(bitmap);
+            bitmap.close();
+            this.setRetroPalette("CUSTOM");
+        } catch (err) {
+            console.error("Error extracting palette:", err);
+        }
+    }
+
+    /** Registers the lights that can emit god rays; creates a proxy mesh and effect for each. */
+    public setGodRaySources(lights: Light[]) {
+        this._godRaySources.forEach(source => source.dispose());
+
+        this._godRaySources = lights.map(light => {
+            const key = light.name || light.uuid;
+            Params.godRaysSources[key] ??= {
+                enabled: Boolean((light as DirectionalLight).isDirectionalLight),
+                density: 0.96,
+                decay: 0.92,
+                weight: 0.4,
+                exposure: 0.6,
+            };
+            return new GodRaySource(this._camera, light, Params.godRaysSources[key], Params.godRaysSamples);
+        });
+
+        this._buildPostProcessingPipeline();
+    }
+
+    /**
+     * Rebinds everything that renders from or reads the camera: helper passes,
+     * the EffectPasses of every chain (and their effects), idle effects, god
+     * ray sources and the debug view. Switching projection type is fine, the
+     * materials pick their perspective / orthographic variant.
+     */
+    public setCamera(camera: OrthographicCamera | PerspectiveCamera | Camera) {
+        if (camera === this._camera) return;
+        this._camera = camera;
+
+        const passes = new Set<Pass>([...Object.values(this._helpers), ...this._installedPasses]);
+        if (this._bufferView) passes.add(this._bufferView);
+        passes.forEach(pass => { pass.mainCamera = camera; });
+
+        // disabled effects are in no pass but keep their camera until re-enabled
+        Object.entries(this._effects).forEach(([key, effect]) => {
+            effect.mainCamera = camera;
+            effectRegistry.get(key)?.camera?.(effect, camera, this._context);
+        });
+        this._godRaySources.forEach(source => { source.effect.mainCamera = camera; });
+        // the previous frame's matrices belong to the other camera
+        this._velocityPass?.resetHistory();
+    }
+
+    /** Cost settings of a quality tier; applied to live instances and used for the ones created later. */
+    public setQuality(quality: QualitySettings) {
+        const { ssaoSamples, ssaoRings, ssaoResolutionScale, bloomResolutionScale, smaaPreset } = quality;
+        this._quality = { ssaoSamples, ssaoRings, ssaoResolutionScale, bloomResolutionScale, smaaPreset };
+        Object.entries(this._effects).forEach(([key, effect]) => {
+            effectRegistry.get(key)?.quality?.(effect, this._quality, this._context);
+        });
+    }
+
+    /**
+     * Part of a larger frame the next renders cover (tiled capture), null to go
+     * back to the screen. Region-aware effects (vignettes, grain, chromatic
+     * aberration, the retro pixel grid, SSAO radius) lay themselves out over
+     * the full frame; lens distortion and flare sit out tiled renders.
+     */
+    public setCaptureRegion(region: CaptureRegion | null) {
+        const previous = this._captureRegion;
+        this._captureRegion = region && { ...region };
+        Object.entries(this._effects).forEach(([key, effect]) => {
+            effectRegistry.get(key)?.capture?.(effect, region, this._context);
+        });
+        // velocity against a different projection would smear the whole tile
+        const moved = previous?.x !== region?.x || previous?.y !== region?.y || previous?.width !== region?.width || previous?.height !== region?.height;
+        if (moved) this._velocityPass?.resetHistory();
+    }
+
+    /**
+     * A/B comparison of two CompareSideSpecs ("raw", "chain", "solo:<key>",
+     * "without:<key>", "preset:<name>"); mode "off" goes back to the single chain.
+     */
+    public setCompare(mode: CompareMode, a: CompareSideSpec = this._compare.a, b: CompareSideSpec = this._compare.b) {
+        Object.assign(this._compare, { mode, a, b });
+        if (mode === "off") this._compareOverlay?.hide();
+        this._buildPostProcessingPipeline();
+        this._compareFolder?.refresh();
+    }
+
+    /** Wipe position, 0 (all B) … 1 (all A). */
+    public setCompareSplit(split: number) {
+        this._compare.split = Math.min(Math.max(split, 0), 1);
+        this._compareFolder?.refresh();
+    }
+
+    private _renderCompare(delta: number): void {
+        const [a, b] = this._compareSides;
+        const { mode, split, flickerRate } = this._compare;
+        if (mode === "off") return;
+        this._compareClock += delta;
+
+        let shown: 0 | 1 = 0;
+        if (mode === "flicker") {
+            shown = Math.floor(this._compareClock * flickerRate) % 2 === 0 ? 0 : 1;
+            this._renderSide(shown ? b : a, delta);
+        } else {
+            // the screen pass draws into the renderer viewport, clipped by its scissor;
+            // side by side shifts each viewport a quarter so both halves show the centre of the frame
+            const size = this._renderer.getSize(this._size);
+            const left = Math.round(size.x * (mode === "wipe" ? split : 0.5));
+            const shift = mode === "sideBySide" ? size.x / 4 : 0;
+
+            this._renderer.setScissorTest(true);
+            this._renderer.setViewport(-shift, 0, size.x, size.y);
+            this._renderer.setScissor(0, 0, left, size.y);
+            this._renderSide(a, delta);
+            this._renderer.setViewport(shift, 0, size.x, size.y);
+            this._renderer.setScissor(left, 0, size.x - left, size.y);
+            this._renderSide(b, 0);   // time already advanced by side A
+            this._renderer.setScissorTest(false);
+            this._renderer.setViewport(0, 0, size.x, size.y);
+        }
+
+        this._compareOverlay ??= new CompareOverlay(split => this.setCompareSplit(split));
+        this._compareOverlay.update(mode, split, [a.label, b.label], this._renderer.domElement.getBoundingClientRect(), shown);
+    }
+
+    /**
+     * Debug view: "final" (the chain output), a BUFFER_VIEWS key, or
+     * "effect:<key>" for one effect alone on the scene; `thumbnails` adds a
+     * strip of every buffer. Has no effect while an A/B comparison runs.
+     */
+    public setView(target: string, thumbnails = this._view.thumbnails) {
+        Object.assign(this._view, { target, thumbnails });
+        this._buildPostProcessingPipeline();
+        if (this._viewList) this._viewList.value = target;
+        this._viewFolder?.refresh();
+    }
+
+    private _renderView(delta: number): void {
+        const view = this._bufferView!;
+        view.depthRange = this._view.depthRange;
+        this._composer!.render(delta);
+
+        this._viewLabels ??= new BufferStripLabels(key => this.setView(key));
+        this._viewLabels.update(view.thumbnails, this._view.target, this._renderer.domElement.getBoundingClientRect());
+    }
+
+    private _renderSide(side: BuiltCompareSide, delta: number): void {
+        const swapped = side.params ? this._swapParams(side.params) : [];
+        this._runOnBuild(side.definitions, side.enabled);
+        this._usePasses(side.passes);
+        this._composer!.render(delta);
+        // back to the live Params the pane edits
+        swapped.forEach(({ effect, param }) => this._applyParam(effect, param));
+    }
+
+    /** Applies a side's values where they differ from the live Params; returns what to restore. */
+    private _swapParams(params: Record<string, unknown>) {
+        const live = Params as Record<string, unknown>;
+        const swapped: { effect: Effect; param: EffectParam<any> }[] = [];
+        effectRegistry.list().forEach(definition => {
+            const effect = this._effects[definition.key];
+            if (!effect) return;
+            definition.params?.forEach(param => {
+                const value = params[param.key];
+                if (value === undefined || COMPARE_STATIC_PARAMS.has(param.key)) return;
+                if (JSON.stringify(value) === JSON.stringify(live[param.key])) return;
+                this._applyParam(effect, param, value);
+                swapped.push({ effect, param });
+            });
+        });
+        return swapped;
+    }
+
     public render(t: number): void {
         if (!this._composer) return;
-        this._composer.render(t);
+
+        // composer expects a delta in seconds, not the rAF timestamp
+        const delta = this._lastTime === null ? 0 : (t - this._lastTime) / 1000;
+        this._lastTime = t;
+
+        this.profiler.beginFrame();
+        this._velocityPass?.beginFrame();
+
+        // global bypass: the plain scene, no chain
+        if (!this.enabled) {
+            this._renderer.render(this._scene, this._camera);
+            return;
+        }
+
+        // once per frame for everything either compare side or the debug view runs
+        Object.entries(this._effectEnabled).forEach(([key, enabled]) => {
+            if (enabled || this._viewFlags?.[key] || this._compareSides.some(side => side.enabled[key])) {
+                effectRegistry.get(key)?.update?.(this._effects[key], delta, this._context);
+            }
+        });
+
+        if (this._compareSides.length === 2) this._renderCompare(delta);
+        else if (this._viewFlags) this._renderView(delta);
+        else this._composer.render(delta);
     }
 
     public resize(width: number, height: number) {
-        this._composer?.setSize(width, height);
+        if (!this._composer) return;
+        // compare sides and the main chain under a debug view are not in the running list but need the size too
+        this._composer.passes = this._installedPasses;
+        this._composer.setSize(width, height);
+        this._usePasses(this._activePasses);
+    }
+
+    /**
+     * Frees every pass, effect and helper (scheduled or idle), detaches the
+     * canvas and registry listeners and hands the renderer its tone mapping back.
+     * The manager is unusable afterwards.
+     */
+    public dispose(): void {
+        if (!this._composer) return;
+
+        this._unsubscribeRegistry();
+        const canvas = this._renderer.domElement;
+        canvas.removeEventListener("dragover", this._onLUTDragOver);
+        canvas.removeEventListener("drop", this._onLUTDrop);
+        // in-flight LUT loads see a stale request and dispose what they loaded
+        this._lutRequest++;
+
+        this.profiler.dispose();
+        this._effectPasses.forEach(pass => this._releaseEffectPass(pass));
+        this._compareSides.forEach(side => side.effectPasses.forEach(pass => this._releaseEffectPass(pass)));
+        this._viewEffectPasses.forEach(pass => this._releaseEffectPass(pass));
+        this._composer.passes = this._installedPasses;
+        this._composer.dispose();
+        // not installed unless a view is showing
+        this._bufferView?.dispose();
+        Object.entries(this._effects).forEach(([key, effect]) => {
+            effect.dispose();
+            effectRegistry.get(key)?.dispose?.(effect, this._context);
+        });
+        Object.values(this._helpers).forEach(pass => pass.dispose());
+        this._godRaySources.forEach(source => source.dispose());
+
+        if (this._rendererToneMapping !== null) this._renderer.toneMapping = this._rendererToneMapping;
+        this._rendererToneMapping = null;
+
+        this._effects = {};
+        this._helpers = {};
+        this._effectPasses = [];
+        this._passes = [];
+        this._installedPasses = [];
+        this._compareSides = [];
+        this._compareOverlay?.dispose();
+        this._compareOverlay = null;
+        this._compareFolder = null;
+        this._compareLists = [];
+        this._bufferView = null;
+        this._viewFlags = null;
+        this._viewPasses = [];
+        this._viewEffectPasses = [];
+        this._viewLabels?.dispose();
+        this._viewLabels = null;
+        this._viewList = null;
+        this._viewFolder = null;
+        this._passLayout = [];
+        this._godRaySources = [];
+        this._orderList = null;
+        this._debugRoot = null;
+        this._composer = null;
     }
 
     public setupDebugPanel(root: TabPageApi) {
-        // 🎯 SMAA
-        const smaaFolder = root.addFolder({ title: "🎯 SMAA", expanded: false });
-        smaaFolder.addBinding(this._effectEnabled, "smaa", { label: "Enable" })
-            .on("change", (ev) => this.setEffectEnabled("smaa", ev.value));
-
-        // 👻 SSAO
-        const ssaoFolder = root.addFolder({ title: "👻 SSAO", expanded: false });
-        ssaoFolder.addBinding(this._effectEnabled, "ssao", { label: "Enable" })
-            .on("change", (ev) => this.setEffectEnabled("ssao", ev.value));
-        ssaoFolder.addBinding(Params, "ssaoOpacity", { label: "Opacity", min: 0, max: 1, step: 0.01 })
-            .on("change", (ev) => { if (this._ssao) this._ssao.blendMode.opacity.value = ev.value; });
-        ssaoFolder.addBinding(Params, "ssaoIntensity", { label: "Intensity", min: 0, max: 4, step: 0.01 })
-            .on("change", (ev) => { if (this._ssao) this._ssao.intensity = ev.value; });
-        ssaoFolder.addBinding(Params, "ssaoRadius", { label: "Radius", min: 0.01, max: 1, step: 0.005 })
-            .on("change", (ev) => { if (this._ssao) this._ssao.radius = ev.value; });
-
-        // 🌸 Bloom
-        const bloomFolder = root.addFolder({ title: "🌸 Bloom", expanded: false });
-        bloomFolder.addBinding(this._effectEnabled, "bloom", { label: "Enable" })
-            .on("change", (ev) => this.setEffectEnabled("bloom", ev.value));
-        bloomFolder.addBinding(Params, "threshold", { label: "Threshold", min: 0, max: 1, step: 0.01 })
-            .on("change", (ev) => { if (this._bloom) this._bloom.luminanceMaterial.threshold = ev.value; });
-        bloomFolder.addBinding(Params, "strength", { label: "Intensity", min: 0, max: 20, step: 0.1 })
-            .on("change", (ev) => { if (this._bloom) this._bloom.intensity = ev.value; });
-        bloomFolder.addBinding(Params, "radius", { label: "Radius / Resolution", min: 0.1, max: 2, step: 0.01 })
-            .on("change", (ev) => { if (this._bloom) (this._bloom as any).resolution.scale = ev.value; });
-
-        // 🌑 Vignette
-        const vignetteFolder = root.addFolder({ title: "🌑 Vignette", expanded: false });
-        vignetteFolder.addBinding(this._effectEnabled, "vignette", { label: "Enable" })
-            .on("change", (ev) => this.setEffectEnabled("vignette", ev.value));
-
-        // 🎨 Sepia
-        const sepiaFolder = root.addFolder({ title: "🎨 Sepia", expanded: false });
-        sepiaFolder.addBinding(this._effectEnabled, "sepia", { label: "Enable" })
-            .on("change", (ev) => this.setEffectEnabled("sepia", ev.value));
-        sepiaFolder.addBinding(Params, "sepiaIntensity", { label: "Intensity", min: 0, max: 1, step: 0.01 });
-
-        // 🎨 Color (Brightness/Contrast)
-        const colorFolder = root.addFolder({ title: "🎨 Color", expanded: false });
-        colorFolder.addBinding(this._effectEnabled, "color", { label: "Enable" })
-            .on("change", (ev) => this.setEffectEnabled("color", ev.value));
-        // colorFolder.addBinding((this._color as BrightnessContrastEffect).uniforms.get("brightness"), "value", {
-        //     label: "Brightness", min: -1, max: 1, step: 0.01
-        // });
-        // colorFolder.addBinding((this._color as BrightnessContrastEffect).uniforms.get("contrast"), "value", {
-        //     label: "Contrast", min: -1, max: 1, step: 0.01
-        // });
-
-        // 🎛️ Final Mix
-        const finalFolder = root.addFolder({ title: "🎛️ Final Mix", expanded: false });
-        finalFolder.addBinding(this._effectEnabled, "final", { label: "Enable" })
-            .on("change", (ev) => this.setEffectEnabled("final", ev.value));
-        finalFolder.addBinding(Params, "noise", { label: "Noise Strength", min: 0, max: 0.5, step: 0.001 })
-            .on("change", (ev) => { if (this._final) this._final.noise = ev.value; });
-        finalFolder.addBinding(Params, "grainScale", { label: "Grain Scale", min: 1, max: 16, step: 0.1 })
-            .on("change", (ev) => { if (this._final) this._final.grainScale = ev.value; });
-        finalFolder.addBinding(Params, "vignetteCenter", {
-            label: "Center", x: { min: 0, max: 1, step: 0.001 }, y: { min: 0, max: 1, step: 0.001 }
-        }).on("change", (ev) => { if (this._final) this._final.vignetteCenter.set(ev.value.x, ev.value.y); });
-        finalFolder.addBinding(Params, "vignetteRadius", { label: "Radius", min: 0.3, max: 0.95, step: 0.001 })
-            .on("change", (ev) => { if (this._final) this._final.vignetteRadius = ev.value; });
-        finalFolder.addBinding(Params, "vignetteStrength", { label: "Strength", min: 0, max: 1, step: 0.001 })
-            .on("change", (ev) => { if (this._final) this._final.vignetteStrength = ev.value; });
-        finalFolder.addBinding(Params, "vignettePower", { label: "Falloff Power", min: 0.8, max: 4, step: 0.01 })
-            .on("change", (ev) => { if (this._final) this._final.vignettePower = ev.value; });
-        finalFolder.addBinding(Params, "vignetteColor", { label: "Color" })
-            .on("change", (ev) => {
-                if (this._final) this._final.vignetteColorHex =
-                    new Color(ev.value.r, ev.value.g, ev.value.b).getHex();
+        this._debugRoot = root;
+
+        // 🔍 View (any intermediate buffer, or one effect alone, full screen)
+        this._viewList = root.addBlade({
+            view: "list",
+            label: "View",
+            options: [],
+            value: this._view.target,
+        }) as ListBladeApi<string>;
+        this._viewList.on("change", (ev) => {
+            if (this._view.target !== ev.value) this.setView(ev.value);
+        });
+        this._updateViewOptions();
+        this._viewFolder = root.addFolder({ title: "🔍 Buffer View", expanded: false });
+        this._viewFolder.addBinding(this._view, "thumbnails", { label: "Thumbnails" })
+            .on("change", (ev) => this.setView(this._view.target, ev.value));
+        this._viewFolder.addBinding(this._view, "depthRange", { label: "Depth Range", min: 1, max: 500, step: 1 });
+
+        // 💾 Presets
+        const presetFolder = root.addFolder({ title: "💾 Presets", expanded: false });
+        const presetOptions = () => Object.keys(this.getPresets()).map(name => ({ text: name, value: name }));
+        const presetList = presetFolder.addBlade({
+            view: "list",
+            label: "Preset",
+            options: presetOptions(),
+            value: this._presetState.selected,
+        }) as ListBladeApi<string>;
+        presetList.on("change", (ev) => { this._presetState.selected = ev.value; });
+        const selectPreset = (name: string) => {
+            presetList.options = presetOptions();
+            presetList.value = name;
+            this._updateCompareOptions();
+        };
+
+        presetFolder.addBinding(this._presetState, "name", { label: "Name" });
+        presetFolder.addButton({ title: "Load" })
+            .on("click", () => {
+                const preset = this.getPresets()[this._presetState.selected];
+                if (preset) this.applyPreset(preset);
             });
-        finalFolder.addBinding(Params, "finalOpacity", { label: "Opacity", min: 0, max: 1, step: 0.01 })
-            .on("change", (ev) => { if (this._final) this._final.blendMode.opacity.value = ev.value; });
-        finalFolder.addBinding(Params, "finalBlend", {
-            label: "Blend Mode",
-            options: {
-                Normal: "NORMAL",
-                Screen: "SCREEN",
-                Add: "ADD",
-                Multiply: "MULTIPLY",
-                Overlay: "OVERLAY",
-                SoftLight: "SOFT_LIGHT",
-            },
-        }).on("change", (ev) => {
-            if (!this._final) return;
-            const map: Record<string, BlendFunction> = {
-                NORMAL: BlendFunction.NORMAL,
-                SCREEN: BlendFunction.SCREEN,
-                ADD: BlendFunction.ADD,
-                MULTIPLY: BlendFunction.MULTIPLY,
-                OVERLAY: BlendFunction.OVERLAY,
-                SOFT_LIGHT: BlendFunction.SOFT_LIGHT,
-            };
-            this._final.blendMode.setBlendFunction(map[ev.value]);
+        presetFolder.addButton({ title: "Save" })
+            .on("click", () => selectPreset(this.savePreset().name));
+        presetFolder.addButton({ title: "Import…" })
+            .on("click", async () => {
+                const file = await pickFile(".json,application/json");
+                if (!file) return;
+                const preset = await this.importPresetFile(file);
+                if (preset) selectPreset(preset.name);
+            });
+        presetFolder.addButton({ title: "Export" })
+            .on("click", () => this.exportPresetFile());
+
+        // 🆚 Compare (A/B of two chains, presets or the raw scene)
+        this._compareFolder = root.addFolder({ title: "🆚 Compare", expanded: false });
+        this._compareFolder.addBinding(this._compare, "mode", { label: "Mode", options: COMPARE_MODES })
+            .on("change", (ev) => this.setCompare(ev.value));
+        this._compareLists = (["a", "b"] as const).map(side => {
+            const list = this._compareFolder!.addBlade({
+                view: "list",
+                label: side.toUpperCase(),
+                options: [],
+                value: this._compare[side],
+            }) as ListBladeApi<string>;
+            list.on("change", (ev) => {
+                if (this._compare[side] === ev.value) return;
+                this._compare[side] = ev.value;
+                if (this._compare.mode !== "off") this._buildPostProcessingPipeline();
+            });
+            return list;
+        });
+        this._updateCompareOptions();
+        this._compareFolder.addBinding(this._compare, "split", { label: "Wipe", min: 0, max: 1, step: 0.001 });
+        this._compareFolder.addBinding(this._compare, "flickerRate", { label: "Flicker (Hz)", min: 0.5, max: 10, step: 0.1 });
+
+        // ↕️ Effect Order (drag to reorder; shows the EffectPass each effect lands in)
+        const orderFolder = root.addFolder({ title: "↕️ Effect Order", expanded: false });
+        this._orderList = new EffectOrderList((order) => this.setEffectOrder(order));
+        orderFolder.addBlade({ view: "separator" }).element.replaceChildren(this._orderList.element);
+        this._orderList.update(this._orderItems());
+        orderFolder.addButton({ title: "Print Render Graph" })
+            .on("click", () => this.printRenderGraph());
+
+        // ⏱️ Profiler (per-pass GPU time, CPU time without timer queries)
+        this.profiler.setupDebugPanel(root.addFolder({ title: "⏱️ Profiler", expanded: false }));
+
+        // one folder per registered effect, generated from its definition
+        const groups = new Map<string, FolderApi>();
+        Object.keys(this._effectEnabled).forEach(key => {
+            const definition = effectRegistry.get(key);
+            if (definition) this._addEffectFolder(root, definition, groups);
+        });
+    }
+
+    /** Side lists follow the registered effects and the saved presets. */
+    private _updateCompareOptions(): void {
+        const options = compareSideOptions(
+            Object.keys(this._effectEnabled).map(key => effectRegistry.get(key)).filter((d): d is EffectDefinition<any> => Boolean(d)),
+            Object.keys(this.getPresets())
+        );
+        this._compareLists.forEach(list => {
+            const value = list.value;
+            list.options = options;
+            list.value = value;
         });
     }
 
+    /** "Effect: …" entries follow the registered effects. */
+    private _updateViewOptions(): void {
+        if (!this._viewList) return;
+        this._viewList.options = bufferViewOptions(
+            Object.keys(this._effectEnabled).map(key => effectRegistry.get(key)).filter((d): d is EffectDefinition<any> => Boolean(d))
+        );
+        this._viewList.value = this._view.target;
+    }
+
+    /** Enable toggle, one binding per param (optionally in sub-folders), then the definition's extras. */
+    private _addEffectFolder(root: TabPageApi, definition: EffectDefinition<any>, groups: Map<string, FolderApi>) {
+        let parent: TabPageApi | FolderApi = root;
+        if (definition.group) {
+            if (!groups.has(definition.group)) groups.set(definition.group, root.addFolder({ title: definition.group, expanded: false }));
+            parent = groups.get(definition.group)!;
+        }
+
+        const folder = parent.addFolder({ title: definition.title, expanded: false });
+        folder.addBinding(this._effectEnabled, definition.key, { label: "Enable" })
+            .on("change", (ev) => this.setEffectEnabled(definition.key, ev.value));
+
+        const subFolders = new Map<string, FolderApi>();
+        definition.params?.forEach(param => {
+            let target = folder;
+            if (param.folder) {
+                if (!subFolders.has(param.folder)) subFolders.set(param.folder, folder.addFolder({ title: param.folder, expanded: false }));
+                target = subFolders.get(param.folder)!;
+            }
+
+            target.addBinding(Params as Record<string, any>, param.key, this._bindingOptions(param))
+                .on("change", () => {
+                    const effect = this._effects[definition.key];
+                    if (effect) this._applyParam(effect, param);
+                });
+        });
+
+        definition.panel?.(folder, this._context);
+    }
+
+    private _bindingOptions(param: EffectParam<any>): Record<string, unknown> {
+        switch (param.type) {
+            case "number": return { label: param.label, min: param.min, max: param.max, step: param.step };
+            case "boolean": return { label: param.label };
+            case "options": return { label: param.label, options: param.options };
+            case "color": return { label: param.label, color: { type: "float" } };
+            case "point": {
+                const axis = { min: param.min, max: param.max, step: param.step };
+                return { label: param.label, x: axis, y: axis };
+            }
+        }
+    }
+
 
 
     //#region Getters
     get _renderPass() { return this._helpers.renderPass as RenderPass; }
+    get _normalPass() { return this._helpers.normalPass as NormalPass | undefined; }
     get _depthDownPass() { return this._helpers.depthDownPass as DepthDownsamplingPass | undefined; }
+    get _depthPickingPass() { return this._helpers.depthPickingPass as DepthPickingPass | undefined; }
+    get _velocityPass() { return this._helpers.velocityPass as VelocityPass | undefined; }
+    get _activePasses() { return this._viewPasses.length ? this._viewPasses : this._passes; }
 
-    get _smaa() { return this._effects.smaa as SMAAEffect; }
-    get _ssao() { return this._effects.ssao as SSAOEffect; }
-    get _bloom() { return this._effects.bloom as BloomEffect; }
-    get _vignette() { return this._effects.vignette as VignetteEffect; }
-    get _color() { return this._effects.color as BrightnessContrastEffect; }
-    get _sepia() { return this._effects.sepia as SepiaEffect; }
+    // only the effects the manager itself talks to; everything else goes through the registry
+    get _lut() { return this._effects.lut as LUT3DEffect; }
+    get _retro() { return this._effects.retro as RetroEffect; }
     get _final() { return this._effects.final as FinalEffect; }
-
-    get _effectsMap() {
-        return {
-            smaa: this._smaa,
-            ssao: this._ssao,
-            bloom: this._bloom,
-            vignette: this._vignette,
-            color: this._color,
-            final: this._final,
-        };
-    }
-}
\ No newline at end of file
+    //#endregion
+}
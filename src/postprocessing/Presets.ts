@@ -0,0 +1,147 @@
+// Presets.ts
+import { Params } from "./Constants";
+
+/** Bump when the preset layout changes; add the upgrade step to migratePreset. */
+export const PRESET_VERSION = 1;
+
+const STORAGE_KEY = "postprocessing.presets";
+
+export type ParamsSnapshot = typeof Params;
+
+export type PostProcessingPreset = {
+    version: number;
+    name: string;
+    enabled: Record<string, boolean>;   // effect key -> enabled
+    order: string[];                    // effect keys in chain order
+    params: Partial<ParamsSnapshot>;    // includes blend modes (finalBlend, sepiaBlend)
+};
+
+type PresetOverrides = {
+    enabled?: Record<string, boolean>;
+    params?: Partial<ParamsSnapshot>;
+};
+
+/**
+ * Built-ins only list what differs from the defaults; anything left out
+ * (including order) falls back to the manager's default preset on apply.
+ */
+const BUILTIN_OVERRIDES: Record<string, PresetOverrides> = {
+    LateNight: {},
+    Clean: {
+        enabled: { ssr: true, ssao: true, bloom: true, vignette: false, toneMapping: true, color: false, sepia: false, final: false },
+        params: { threshold: 0.6, strength: 0.6, ssaoOpacity: 0.6, autoExposure: true },
+    },
+    Noir: {
+        enabled: { bloom: true, vignette: true, lut: true, color: true, sepia: false, final: true },
+        params: {
+            lutFile: "/luts/noir.cube",
+            lutIntensity: 1,
+            threshold: 0.55,
+            strength: 0.8,
+            noise: 0.08,
+            grainScale: 4,
+            vignetteRadius: 0.35,
+            vignetteStrength: 0.45,
+            vignettePower: 1.4,
+            vignetteColor: { r: 0, g: 0, b: 0 },
+        },
+    },
+    Arcade: {
+        enabled: { ssr: false, dof: false, vignette: false, sepia: false, retro: true, final: false },
+        params: { retroPixelSize: 4, retroPaletteName: "PICO8", retroDither: true, retroCRT: true },
+    },
+};
+
+export const BUILTIN_PRESETS: Record<string, PostProcessingPreset> = Object.fromEntries(
+    Object.entries(BUILTIN_OVERRIDES).map(([name, overrides]) => [name, {
+        version: PRESET_VERSION,
+        name,
+        enabled: overrides.enabled ?? {},
+        order: [],
+        params: overrides.params ?? {},
+    }])
+);
+
+/** Validates parsed JSON and upgrades older versions; throws on anything it cannot read. */
+export function migratePreset(data: unknown): PostProcessingPreset {
+    const preset = data as Partial<PostProcessingPreset> | null;
+    if (!preset || typeof preset !== "object") throw new Error("Preset is not an object");
+
+    const version = preset.version;
+    if (typeof version !== "number") throw new Error("Preset has no version");
+    if (version > PRESET_VERSION) throw new Error(`Preset version ${version} is newer than supported (${PRESET_VERSION})`);
+
+    return {
+        version: PRESET_VERSION,
+        name: typeof preset.name === "string" ? preset.name : "Imported",
+        enabled: { ...preset.enabled },
+        order: Array.isArray(preset.order) ? preset.order.filter(key => typeof key === "string") : [],
+        params: { ...preset.params },
+    };
+}
+
+export function parsePreset(json: string): PostProcessingPreset {
+    return migratePreset(JSON.parse(json));
+}
+
+export function serializePreset(preset: PostProcessingPreset): string {
+    return JSON.stringify(preset, null, 2);
+}
+
+/**
+ * Only what `preset` changes relative to `base`: flags and params that
+ * differ (objects as a whole), order only if it differs. Applied on top of
+ * the same base, it gives back the full preset.
+ */
+export function diffPreset(preset: PostProcessingPreset, base: PostProcessingPreset): PostProcessingPreset {
+    const baseParams = base.params as Record<string, unknown>;
+    return {
+        ...preset,
+        enabled: Object.fromEntries(Object.entries(preset.enabled).filter(([key, enabled]) => base.enabled[key] !== enabled)),
+        order: preset.order.join() === base.order.join() ? [] : preset.order,
+        params: Object.fromEntries(Object.entries(preset.params).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(baseParams[key]))),
+    };
+}
+
+/**
+ * Copies `source` into `target` in place, recursing into plain objects so
+ * references held elsewhere (pane bindings, god ray sources) stay valid.
+ * Keys the target does not know about are ignored, except inside records
+ * that start empty (e.g. godRaysSources).
+ */
+export function assignParams(target: Record<string, any>, source: Record<string, any>): void {
+    const open = Object.keys(target).length === 0;
+    Object.entries(source).forEach(([key, value]) => {
+        if (!open && !(key in target)) return;
+        const current = target[key];
+        if (value && typeof value === "object" && current && typeof current === "object") {
+            assignParams(current, value);
+        } else if (value !== undefined && (current === undefined || typeof current === typeof value)) {
+            target[key] = structuredClone(value);
+        }
+    });
+}
+
+//#region Storage
+export function loadStoredPresets(): Record<string, PostProcessingPreset> {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") as Record<string, unknown>;
+        return Object.fromEntries(Object.entries(stored).flatMap(([name, data]) => {
+            try {
+                return [[name, migratePreset(data)]];
+            } catch (err) {
+                console.warn(`Skipping stored preset ${name}:`, err);
+                return [];
+            }
+        }));
+    } catch {
+        return {};
+    }
+}
+
+export function storePreset(preset: PostProcessingPreset): void {
+    const presets = loadStoredPresets();
+    presets[preset.name] = preset;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+//#endregion
@@ -0,0 +1,41 @@
+// RadialChromaticAberrationEffect.ts
+import { BlendFunction, Effect, EffectAttribute } from "postprocessing";
+import { Uniform, Vector4 } from "three";
+import type { CaptureRegion } from "./EffectRegistry";
+// @ts-ignore
+import fragmentShader from "/src/shaders/chromaticAberration.frag";
+
+type RadialChromaticAberrationOpts = {
+    blendFunction?: BlendFunction;
+
+    strength?: number;   // channel offset (uv) at the corners
+    falloff?: number;    // radial falloff power
+};
+
+/** Lateral chromatic aberration: red and blue split along the radius, growing toward the edges. */
+export class RadialChromaticAberrationEffect extends Effect {
+    constructor(opts: RadialChromaticAberrationOpts = {}) {
+        super("RadialChromaticAberrationEffect", fragmentShader, {
+            blendFunction: opts.blendFunction ?? BlendFunction.NORMAL,
+            attributes: EffectAttribute.CONVOLUTION,
+            uniforms: new Map<string, Uniform>([
+                ["strength", new Uniform(opts.strength ?? 0.004)],
+                ["falloff", new Uniform(opts.falloff ?? 1.5)],
+                ["uViewRegion", new Uniform(new Vector4(0, 0, 1, 1))],
+            ]),
+        });
+    }
+
+    /** Part of the frame the next renders cover (tiled capture); null for all of it. */
+    setViewRegion(region: CaptureRegion | null) {
+        (this.uniforms.get("uViewRegion") as Uniform<Vector4>).value.set(
+            region?.x ?? 0, region?.y ?? 0, region?.width ?? 1, region?.height ?? 1
+        );
+    }
+
+    get strength() { return (this.uniforms.get("strength") as Uniform<number>).value; }
+    set strength(v: number) { (this.uniforms.get("strength") as Uniform<number>).value = v; }
+
+    get falloff() { return (this.uniforms.get("falloff") as Uniform<number>).value; }
+    set falloff(v: number) { (this.uniforms.get("falloff") as Uniform<number>).value = v; }
+}
@@ -0,0 +1,62 @@
+// RenderGraph.ts
+import type { HelperBuffer } from "./EffectRegistry";
+
+/** Scheduling order of the helper passes (after the scene RenderPass). */
+export const HELPER_ORDER: HelperBuffer[] = ["depthPicking", "normal", "normalDepth", "velocity"];
+
+/** Helper passes that read another helper's output. */
+const HELPER_DEPENDENCIES: Partial<Record<HelperBuffer, HelperBuffer[]>> = {
+    normalDepth: ["normal"],   // DepthDownsamplingPass packs the normal buffer with depth
+};
+
+export type HelperNode = {
+    buffer: HelperBuffer;
+    pass: string;          // pass class name
+    consumers: string[];   // effect keys (or helper buffers) reading it
+};
+
+export type EffectPassNode = {
+    effects: string[];     // effect names in pass order
+    keys: string[];        // registry keys
+    reason: string;        // why a new pass started here
+    reads: HelperBuffer[];
+};
+
+export type RenderGraph = {
+    helpers: HelperNode[];
+    passes: EffectPassNode[];
+};
+
+/** Adds the helpers the requested ones depend on and puts them in scheduling order. */
+export function resolveHelpers(requested: Iterable<HelperBuffer>): HelperBuffer[] {
+    const needed = new Set<HelperBuffer>();
+    const visit = (buffer: HelperBuffer) => {
+        if (needed.has(buffer)) return;
+        needed.add(buffer);
+        HELPER_DEPENDENCIES[buffer]?.forEach(visit);
+    };
+    [...requested].forEach(visit);
+    return HELPER_ORDER.filter(buffer => needed.has(buffer));
+}
+
+export function helperDependencies(buffer: HelperBuffer): HelperBuffer[] {
+    return HELPER_DEPENDENCIES[buffer] ?? [];
+}
+
+export function formatRenderGraph(graph: RenderGraph): string {
+    const lines = ["RenderPass (scene) → inputBuffer"];
+
+    graph.helpers.forEach(helper => {
+        const consumers = helper.consumers.length ? helper.consumers.join(", ") : "nobody";
+        lines.push(`${helper.pass} [${helper.buffer}] → ${consumers}`);
+    });
+    if (graph.helpers.length === 0) lines.push("(no helper passes)");
+
+    graph.passes.forEach((pass, i) => {
+        const reads = pass.reads.length ? `  reads: ${pass.reads.join(", ")}` : "";
+        lines.push(`EffectPass #${i} (${pass.reason}): ${pass.effects.join(" → ")}${reads}`);
+    });
+    if (graph.passes.length === 0) lines.push("(no effect passes)");
+
+    return lines.join("\n");
+}
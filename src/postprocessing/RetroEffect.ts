@@ -0,0 +1,145 @@
+// RetroEffect.ts
+import { BlendFunction, Effect } from "postprocessing";
+import { DataTexture, Uniform, Vector4 } from "three";
+import type { CaptureRegion } from "./EffectRegistry";
+import { createBlueNoiseTexture, createPaletteTexture, writePalette } from "./RetroUtils";
+// @ts-ignore
+import fragmentShader from "/src/shaders/retro.frag";
+
+export type DitherMode = "BAYER" | "BLUE_NOISE";
+
+const DITHER_DEFINES: Record<DitherMode, string> = { BAYER: "1", BLUE_NOISE: "2" };
+
+type RetroOpts = {
+    blendFunction?: BlendFunction;
+
+    pixelate?: boolean;
+    pixelSize?: number;          // virtual pixel size in screen pixels
+    dither?: boolean;
+    ditherMode?: DitherMode;
+    ditherStrength?: number;     // spread in quantisation steps
+    colorLevels?: number;        // per-channel levels when the palette is off
+    palette?: boolean;
+    paletteColors?: number[];    // sRGB hex, up to 16
+    crt?: boolean;
+    scanlineIntensity?: number;
+    maskIntensity?: number;      // phosphor aperture grille
+};
+
+/**
+ * Retro stage: pixelation, ordered / blue-noise dithering, palette
+ * quantisation and a CRT scanline + phosphor mask overlay. Each part is a
+ * define, so disabled parts cost nothing.
+ */
+export class RetroEffect extends Effect {
+    private _paletteTexture: DataTexture;
+    private _blueNoise: DataTexture | null = null;
+    private _ditherMode: DitherMode;
+
+    constructor(opts: RetroOpts = {}) {
+        super("RetroEffect", fragmentShader, {
+            blendFunction: opts.blendFunction ?? BlendFunction.NORMAL,
+            defines: new Map<string, string>([
+                ["DITHER", "0"],
+            ]),
+            uniforms: new Map<string, Uniform>([
+                ["pixelSize", new Uniform(opts.pixelSize ?? 4)],
+                ["colorLevels", new Uniform(opts.colorLevels ?? 6)],
+                ["ditherStrength", new Uniform(opts.ditherStrength ?? 1)],
+                ["blueNoise", new Uniform(null)],
+                ["blueNoiseSize", new Uniform(1)],
+                ["palette", new Uniform(null)],
+                ["paletteSize", new Uniform(0)],
+                ["scanlineIntensity", new Uniform(opts.scanlineIntensity ?? 0.35)],
+                ["maskIntensity", new Uniform(opts.maskIntensity ?? 0.25)],
+                ["uViewRegion", new Uniform(new Vector4(0, 0, 1, 1))],
+                ["uPixelScale", new Uniform(1)],
+            ]),
+        });
+
+        this._paletteTexture = createPaletteTexture();
+        this.uniforms.get("palette")!.value = this._paletteTexture;
+        this.setPalette(opts.paletteColors ?? []);
+
+        this._ditherMode = opts.ditherMode ?? "BAYER";
+        this.pixelate = opts.pixelate ?? true;
+        this.dither = opts.dither ?? true;
+        this.palette = opts.palette ?? true;
+        this.crt = opts.crt ?? false;
+    }
+
+    private _setFlag(name: string, v: boolean) {
+        if (v === this.defines.has(name)) return;
+        if (v) this.defines.set(name, "1");
+        else this.defines.delete(name);
+        this.setChanged();
+    }
+
+    /** Part of the frame the next renders cover (tiled capture); null for all of it. */
+    setViewRegion(region: CaptureRegion | null) {
+        (this.uniforms.get("uViewRegion") as Uniform<Vector4>).value.set(
+            region?.x ?? 0, region?.y ?? 0, region?.width ?? 1, region?.height ?? 1
+        );
+        (this.uniforms.get("uPixelScale") as Uniform<number>).value = region?.pixelScale ?? 1;
+    }
+
+    // ---------- pixelation ----------
+    get pixelate() { return this.defines.has("PIXELATE"); }
+    set pixelate(v: boolean) { this._setFlag("PIXELATE", v); }
+
+    get pixelSize() { return (this.uniforms.get("pixelSize") as Uniform<number>).value; }
+    set pixelSize(v: number) { (this.uniforms.get("pixelSize") as Uniform<number>).value = v; }
+
+    // ---------- dithering ----------
+    get dither() { return this.defines.get("DITHER") !== "0"; }
+    set dither(v: boolean) {
+        this.defines.set("DITHER", v ? DITHER_DEFINES[this._ditherMode] : "0");
+        if (v && this._ditherMode === "BLUE_NOISE") this._ensureBlueNoise();
+        this.setChanged();
+    }
+
+    get ditherMode() { return this._ditherMode; }
+    set ditherMode(v: DitherMode) {
+        this._ditherMode = v;
+        if (this.dither) this.dither = true;
+    }
+
+    get ditherStrength() { return (this.uniforms.get("ditherStrength") as Uniform<number>).value; }
+    set ditherStrength(v: number) { (this.uniforms.get("ditherStrength") as Uniform<number>).value = v; }
+
+    get colorLevels() { return (this.uniforms.get("colorLevels") as Uniform<number>).value; }
+    set colorLevels(v: number) { (this.uniforms.get("colorLevels") as Uniform<number>).value = v; }
+
+    /** Blue noise is generated on first use (void-and-cluster is not free). */
+    private _ensureBlueNoise() {
+        if (this._blueNoise) return;
+        this._blueNoise = createBlueNoiseTexture();
+        this.uniforms.get("blueNoise")!.value = this._blueNoise;
+        this.uniforms.get("blueNoiseSize")!.value = this._blueNoise.image.width;
+    }
+
+    // ---------- palette ----------
+    get palette() { return this.defines.has("PALETTE"); }
+    set palette(v: boolean) { this._setFlag("PALETTE", v); }
+
+    /** sRGB hex colours, up to 16 (extra colours are dropped). */
+    setPalette(colors: number[]) {
+        this.uniforms.get("paletteSize")!.value = writePalette(this._paletteTexture, colors);
+    }
+
+    // ---------- crt ----------
+    get crt() { return this.defines.has("CRT"); }
+    set crt(v: boolean) { this._setFlag("CRT", v); }
+
+    get scanlineIntensity() { return (this.uniforms.get("scanlineIntensity") as Uniform<number>).value; }
+    set scanlineIntensity(v: number) { (this.uniforms.get("scanlineIntensity") as Uniform<number>).value = v; }
+
+    get maskIntensity() { return (this.uniforms.get("maskIntensity") as Uniform<number>).value; }
+    set maskIntensity(v: number) { (this.uniforms.get("maskIntensity") as Uniform<number>).value = v; }
+
+    dispose() {
+        super.dispose();
+        this._paletteTexture.dispose();
+        this._blueNoise?.dispose();
+    }
+}
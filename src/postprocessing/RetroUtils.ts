@@ -0,0 +1,171 @@
+// RetroUtils.ts
+import { DataTexture, NearestFilter, RedFormat, RepeatWrapping, RGBAFormat } from "three";
+
+/** Max colours the retro shader can search (palette texture width). */
+export const MAX_PALETTE_SIZE = 16;
+
+/** Built-in palettes as sRGB hex. */
+export const PALETTES: Record<string, number[]> = {
+    GAMEBOY: [0x0f380f, 0x306230, 0x8bac0f, 0x9bbc0f],
+    CGA: [0x000000, 0x55ffff, 0xff55ff, 0xffffff],
+    PICO8: [
+        0x000000, 0x1d2b53, 0x7e2553, 0x008751, 0xab5236, 0x5f574f, 0xc2c3c7, 0xfff1e8,
+        0xff004d, 0xffa300, 0xffec27, 0x00e436, 0x29adff, 0x83769c, 0xff77a8, 0xffccaa,
+    ],
+};
+
+export function createPaletteTexture(): DataTexture {
+    const texture = new DataTexture(new Uint8Array(MAX_PALETTE_SIZE * 4), MAX_PALETTE_SIZE, 1, RGBAFormat);
+    texture.name = "Retro.Palette";
+    texture.minFilter = texture.magFilter = NearestFilter;
+    return texture;
+}
+
+/** Writes up to MAX_PALETTE_SIZE colours into the palette texture; returns the count written. */
+export function writePalette(texture: DataTexture, colors: number[]): number {
+    const data = texture.image.data as Uint8Array;
+    const count = Math.min(colors.length, MAX_PALETTE_SIZE);
+    data.fill(0);
+    for (let i = 0; i < count; i++) {
+        data[i * 4 + 0] = (colors[i] >> 16) & 0xff;
+        data[i * 4 + 1] = (colors[i] >> 8) & 0xff;
+        data[i * 4 + 2] = colors[i] & 0xff;
+        data[i * 4 + 3] = 0xff;
+    }
+    texture.needsUpdate = true;
+    return count;
+}
+
+/**
+ * Tiling blue noise threshold map built with void-and-cluster (Ulichney):
+ * points are ranked by repeatedly filling the largest void of a Gaussian
+ * energy field, which keeps neighbouring thresholds far apart.
+ */
+export function createBlueNoiseTexture(size = 64, sigma = 1.5): DataTexture {
+    const n = size * size;
+    const binary = new Uint8Array(n);
+    const energy = new Float32Array(n);
+    const rank = new Uint32Array(n);
+
+    // toroidal gaussian kernel indexed by wrapped (dx, dy)
+    const kernel = new Float32Array(n);
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const dx = Math.min(x, size - x);
+            const dy = Math.min(y, size - y);
+            kernel[y * size + x] = Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma));
+        }
+    }
+
+    const splat = (index: number, sign: number) => {
+        const px = index % size;
+        const py = (index / size) | 0;
+        for (let y = 0; y < size; y++) {
+            const ky = ((y - py + size) % size) * size;
+            for (let x = 0; x < size; x++) {
+                energy[y * size + x] += sign * kernel[ky + ((x - px + size) % size)];
+            }
+        }
+    };
+
+    const extreme = (value: number, findMax: boolean) => {
+        let best = -1;
+        for (let i = 0; i < n; i++) {
+            if (binary[i] !== value) continue;
+            if (best < 0 || (findMax ? energy[i] > energy[best] : energy[i] < energy[best])) best = i;
+        }
+        return best;
+    };
+
+    // seed with ~10% white noise, then relax: move tightest cluster to largest void until stable
+    let ones = 0;
+    for (let i = 0; i < n; i++) {
+        if (Math.random() < 0.1) {
+            binary[i] = 1;
+            splat(i, 1);
+            ones++;
+        }
+    }
+    for (let iteration = 0; iteration < n; iteration++) {
+        const cluster = extreme(1, true);
+        binary[cluster] = 0;
+        splat(cluster, -1);
+        const voidIndex = extreme(0, false);
+        binary[voidIndex] = 1;
+        splat(voidIndex, 1);
+        if (voidIndex === cluster) break;
+    }
+
+    // rank the seed points by removing tightest clusters, then fill voids for the rest
+    const seed = binary.slice();
+    const seedEnergy = energy.slice();
+    for (let r = ones - 1; r >= 0; r--) {
+        const cluster = extreme(1, true);
+        binary[cluster] = 0;
+        splat(cluster, -1);
+        rank[cluster] = r;
+    }
+    binary.set(seed);
+    energy.set(seedEnergy);
+    for (let r = ones; r < n; r++) {
+        const voidIndex = extreme(0, false);
+        binary[voidIndex] = 1;
+        splat(voidIndex, 1);
+        rank[voidIndex] = r;
+    }
+
+    const data = new Uint8Array(n);
+    for (let i = 0; i < n; i++) data[i] = Math.floor((rank[i] / n) * 256);
+
+    const texture = new DataTexture(data, size, size, RedFormat);
+    texture.name = "Retro.BlueNoise";
+    texture.minFilter = texture.magFilter = NearestFilter;
+    texture.wrapS = texture.wrapT = RepeatWrapping;
+    texture.needsUpdate = true;
+    return texture;
+}
+
+/** Median-cut palette (sRGB hex) from an image, sampled at a small size. */
+export function extractPalette(image: CanvasImageSource, count = MAX_PALETTE_SIZE, sampleSize = 64): number[] {
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = sampleSize;
+    const ctx = canvas.getContext("2d")!;
+    ctx.drawImage(image, 0, 0, sampleSize, sampleSize);
+    const { data } = ctx.getImageData(0, 0, sampleSize, sampleSize);
+
+    const pixels: number[][] = [];
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] < 128) continue;
+        pixels.push([data[i], data[i + 1], data[i + 2]]);
+    }
+    if (pixels.length === 0) return [];
+
+    // split the box with the widest channel range at its median until we have enough boxes
+    const boxes: number[][][] = [pixels];
+    while (boxes.length < count) {
+        let widest = -1, widestChannel = 0, widestRange = 0;
+        boxes.forEach((box, b) => {
+            if (box.length < 2) return;
+            for (let c = 0; c < 3; c++) {
+                let min = 255, max = 0;
+                box.forEach(p => { min = Math.min(min, p[c]); max = Math.max(max, p[c]); });
+                if (max - min > widestRange) {
+                    widest = b;
+                    widestChannel = c;
+                    widestRange = max - min;
+                }
+            }
+        });
+        if (widest < 0) break;
+
+        const box = boxes[widest].sort((a, b) => a[widestChannel] - b[widestChannel]);
+        const half = box.length >> 1;
+        boxes.splice(widest, 1, box.slice(0, half), box.slice(half));
+    }
+
+    return boxes.map(box => {
+        const sum = box.reduce((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]], [0, 0, 0]);
+        const [r, g, b] = sum.map(v => Math.round(v / box.length));
+        return (r << 16) | (g << 8) | b;
+    });
+}
@@ -0,0 +1,177 @@
+// SSREffect.ts
+import { BlendFunction, Effect, EffectAttribute, Resolution, ShaderPass } from "postprocessing";
+import { BasicDepthPacking, Camera, Matrix4, NoBlending, PerspectiveCamera, ShaderMaterial, Texture, Uniform, Vector2, WebGLRenderTarget, type DepthPackingStrategies, type WebGLRenderer } from "three";
+// @ts-ignore
+import fragmentShader from "/src/shaders/ssr.frag";
+// @ts-ignore
+import traceFragmentShader from "/src/shaders/ssrTrace.frag";
+// @ts-ignore
+import fullscreenVertexShader from "/src/shaders/fullscreen.vert";
+
+type SSROpts = {
+    normalBuffer: Texture;
+    normalDepthBuffer?: Texture | null;  // DepthDownsamplingPass output (normal rgb + depth a)
+    blendFunction?: BlendFunction;
+
+    intensity?: number;        // reflection mix strength
+    maxDistance?: number;      // max ray length in world units
+    thickness?: number;        // depth tolerance for a hit
+    steps?: number;            // ray march steps (recompiles)
+    refineSteps?: number;      // binary search steps after a hit (recompiles)
+    roughness?: number;        // 0 = mirror, 1 = very blurry
+    blur?: number;             // cone radius (uv) at full roughness
+    blurTaps?: number;         // cone samples (recompiles)
+    edgeFade?: number;         // screen border fade (uv)
+    resolutionScale?: number;
+};
+
+export class SSREffect extends Effect {
+    public readonly resolution: Resolution;
+
+    private _camera: Camera;
+    private _renderTarget: WebGLRenderTarget;
+    private _traceMaterial: ShaderMaterial;
+    private _tracePass: ShaderPass;
+
+    constructor(camera: Camera, opts: SSROpts) {
+        super("SSREffect", fragmentShader, {
+            blendFunction: opts.blendFunction ?? BlendFunction.NORMAL,
+            attributes: EffectAttribute.DEPTH,
+            uniforms: new Map<string, Uniform>([
+                ["reflectionBuffer", new Uniform(null)],
+                ["intensity", new Uniform(opts.intensity ?? 1)],
+            ]),
+        });
+
+        this._camera = camera;
+
+        this._renderTarget = new WebGLRenderTarget(1, 1, { depthBuffer: false });
+        this._renderTarget.texture.name = "SSR.Target";
+        this.uniforms.get("reflectionBuffer")!.value = this._renderTarget.texture;
+
+        this._traceMaterial = new ShaderMaterial({
+            name: "SSRTraceMaterial",
+            defines: {
+                STEPS: String(Math.round(opts.steps ?? 48)),
+                REFINE_STEPS: String(Math.round(opts.refineSteps ?? 6)),
+                BLUR_TAPS: String(Math.round(opts.blurTaps ?? 8)),
+                DEPTH_PACKING: String(BasicDepthPacking),
+            },
+            uniforms: {
+                inputBuffer: new Uniform(null),
+                depthBuffer: new Uniform(null),
+                normalBuffer: new Uniform(opts.normalBuffer),
+                normalDepthBuffer: new Uniform(opts.normalDepthBuffer ?? null),
+                uProjectionMatrix: new Uniform(new Matrix4()),
+                uInverseProjectionMatrix: new Uniform(new Matrix4()),
+                uCameraNearFar: new Uniform(new Vector2(0.1, 1000)),
+                uMaxDistance: new Uniform(opts.maxDistance ?? 8),
+                uThickness: new Uniform(opts.thickness ?? 0.15),
+                uRoughness: new Uniform(opts.roughness ?? 0.2),
+                uBlur: new Uniform(opts.blur ?? 0.02),
+                uEdgeFade: new Uniform(opts.edgeFade ?? 0.1),
+            },
+            vertexShader: fullscreenVertexShader,
+            fragmentShader: traceFragmentShader,
+            blending: NoBlending,
+            toneMapped: false,
+            depthWrite: false,
+            depthTest: false,
+        });
+        if (opts.normalDepthBuffer) this._traceMaterial.defines.NORMAL_DEPTH = "1";
+
+        this._tracePass = new ShaderPass(this._traceMaterial);
+
+        this.resolution = new Resolution(this, Resolution.AUTO_SIZE, Resolution.AUTO_SIZE, opts.resolutionScale ?? 0.5);
+        this.resolution.addEventListener("change", () => this.setSize(this.resolution.baseWidth, this.resolution.baseHeight));
+
+        this._copyCameraSettings();
+    }
+
+    // ---------- camera ----------
+    set mainCamera(camera: Camera) {
+        this._camera = camera;
+        this._copyCameraSettings();
+    }
+
+    private _copyCameraSettings() {
+        const camera = this._camera as PerspectiveCamera;
+        const defines = this._traceMaterial.defines;
+        const isPerspective = Boolean(camera.isPerspectiveCamera);
+
+        if (isPerspective !== ("PERSPECTIVE_CAMERA" in defines)) {
+            if (isPerspective) defines.PERSPECTIVE_CAMERA = "1";
+            else delete defines.PERSPECTIVE_CAMERA;
+            this._traceMaterial.needsUpdate = true;
+        }
+
+        if (camera.near !== undefined) {
+            (this._traceMaterial.uniforms.uCameraNearFar.value as Vector2).set(camera.near, camera.far);
+        }
+    }
+
+    // ---------- frame ----------
+    setDepthTexture(depthTexture: Texture, depthPacking: DepthPackingStrategies = BasicDepthPacking) {
+        this._traceMaterial.uniforms.depthBuffer.value = depthTexture;
+        this._traceMaterial.defines.DEPTH_PACKING = String(depthPacking);
+        this._traceMaterial.needsUpdate = true;
+    }
+
+    /** Reflection buffer: rgb = reflected colour, a = confidence. */
+    get reflectionTarget(): WebGLRenderTarget {
+        return this._renderTarget;
+    }
+
+    /** Scene depth the trace ran against, and its packing. */
+    get depthTexture(): Texture | null {
+        return this._traceMaterial.uniforms.depthBuffer.value as Texture | null;
+    }
+
+    get depthPacking(): DepthPackingStrategies {
+        return Number(this._traceMaterial.defines.DEPTH_PACKING) as DepthPackingStrategies;
+    }
+
+    update(renderer: WebGLRenderer, inputBuffer: WebGLRenderTarget) {
+        const uniforms = this._traceMaterial.uniforms;
+        (uniforms.uProjectionMatrix.value as Matrix4).copy(this._camera.projectionMatrix);
+        (uniforms.uInverseProjectionMatrix.value as Matrix4).copy(this._camera.projectionMatrixInverse);
+        this._copyCameraSettings();
+
+        this._tracePass.render(renderer, inputBuffer, this._renderTarget);
+    }
+
+    setSize(width: number, height: number) {
+        this.resolution.setBaseSize(width, height);
+        this._renderTarget.setSize(this.resolution.width, this.resolution.height);
+    }
+
+    dispose() {
+        super.dispose();
+        this._renderTarget.dispose();
+        this._traceMaterial.dispose();
+        this._tracePass.dispose();
+    }
+
+    // ---------- tracing ----------
+    get intensity() { return (this.uniforms.get("intensity") as Uniform<number>).value; }
+    set intensity(v: number) { (this.uniforms.get("intensity") as Uniform<number>).value = v; }
+
+    get maxDistance() { return this._traceMaterial.uniforms.uMaxDistance.value as number; }
+    set maxDistance(v: number) { this._traceMaterial.uniforms.uMaxDistance.value = v; }
+
+    get thickness() { return this._traceMaterial.uniforms.uThickness.value as number; }
+    set thickness(v: number) { this._traceMaterial.uniforms.uThickness.value = v; }
+
+    get steps() { return Number(this._traceMaterial.defines.STEPS); }
+    set steps(v: number) {
+        this._traceMaterial.defines.STEPS = String(Math.max(1, Math.round(v)));
+        this._traceMaterial.needsUpdate = true;
+    }
+
+    // ---------- blur ----------
+    get roughness() { return this._traceMaterial.uniforms.uRoughness.value as number; }
+    set roughness(v: number) { this._traceMaterial.uniforms.uRoughness.value = v; }
+
+    get blur() { return this._traceMaterial.uniforms.uBlur.value as number; }
+    set blur(v: number) { this._traceMaterial.uniforms.uBlur.value = v; }
+}
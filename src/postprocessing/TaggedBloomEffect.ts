@@ -0,0 +1,156 @@
+// TaggedBloomEffect.ts
+import { BloomEffect, EffectAttribute, type BloomEffectOptions } from "postprocessing";
+import { BasicDepthPacking, Color, ShaderMaterial, SRGBColorSpace, Uniform, Vector2, WebGLRenderTarget, type Camera, type DepthPackingStrategies, type Mesh, type OrthographicCamera, type PerspectiveCamera, type Scene, type Texture, type TextureDataType, type WebGLRenderer } from "three";
+import { bloomIntensity } from "../SceneTags";
+// @ts-ignore
+import vertexShader from "/src/shaders/bloomSelection.vert";
+// @ts-ignore
+import fragmentShader from "/src/shaders/bloomSelection.frag";
+
+/** THRESHOLD: everything above the luminance threshold glows. SELECTIVE: only meshes on the bloom layer. */
+export type BloomMode = "THRESHOLD" | "SELECTIVE";
+
+type TaggedBloomOpts = BloomEffectOptions & {
+    layer: number;          // render layer of the meshes selective mode lets through
+    mode?: BloomMode;
+};
+
+/**
+ * BloomEffect with a selective mode. Before the bright-pass, the meshes on
+ * `layer` are drawn over black with the frame's colour where they are the
+ * visible surface, times their userData.bloomIntensity, and the bloom runs on
+ * that instead of the frame. The luminance threshold still applies to them,
+ * so the flare sharing the bright-pass keeps working in both modes.
+ */
+export class TaggedBloomEffect extends BloomEffect {
+    public mode: BloomMode;
+    public layer: number;
+
+    private _scene: Scene;
+    private _camera: Camera;
+    private _selectionTarget: WebGLRenderTarget;
+    private _selectionMaterial: ShaderMaterial;
+    private _clearColor = new Color();
+
+    constructor(scene: Scene, camera: Camera, opts: TaggedBloomOpts) {
+        super(opts);
+        // the selection is depth tested against the frame
+        this.setAttributes(this.getAttributes() | EffectAttribute.DEPTH);
+
+        this.mode = opts.mode ?? "THRESHOLD";
+        this.layer = opts.layer;
+        this._scene = scene;
+        this._camera = camera;
+
+        this._selectionTarget = new WebGLRenderTarget(1, 1, { depthBuffer: false });
+        this._selectionTarget.texture.name = "Bloom.Selection";
+
+        const material = new ShaderMaterial({
+            name: "BloomSelectionMaterial",
+            defines: {
+                DEPTH_PACKING: String(BasicDepthPacking),
+            },
+            uniforms: {
+                uInput: new Uniform(null),
+                uDepth: new Uniform(null),
+                uResolution: new Uniform(new Vector2()),
+                uPerspective: new Uniform(true),
+                uCameraNearFar: new Uniform(new Vector2(0.1, 1000)),
+                uIntensity: new Uniform(1),
+            },
+            vertexShader,
+            fragmentShader,
+            toneMapped: false,
+            depthTest: false,
+            depthWrite: false,
+        });
+        // one override material for every mesh: its intensity goes in per draw
+        material.onBeforeRender = (_renderer, _scene, _camera, _geometry, object) => {
+            material.uniforms.uIntensity.value = bloomIntensity(object as Mesh);
+            material.uniformsNeedUpdate = true;
+        };
+        this._selectionMaterial = material;
+    }
+
+    /** What selective mode feeds the bright-pass (stale in threshold mode). */
+    get selectionTexture(): Texture {
+        return this._selectionTarget.texture;
+    }
+
+    // ---------- camera ----------
+    set mainCamera(camera: Camera) {
+        this._camera = camera;
+    }
+
+    // ---------- frame ----------
+    setDepthTexture(depthTexture: Texture, depthPacking: DepthPackingStrategies = BasicDepthPacking) {
+        this._selectionMaterial.uniforms.uDepth.value = depthTexture;
+        this._selectionMaterial.defines.DEPTH_PACKING = String(depthPacking);
+        this._selectionMaterial.needsUpdate = true;
+    }
+
+    update(renderer: WebGLRenderer, inputBuffer: WebGLRenderTarget, deltaTime?: number) {
+        if (this.mode !== "SELECTIVE") {
+            super.update(renderer, inputBuffer, deltaTime);
+            return;
+        }
+        this._renderSelection(renderer, inputBuffer);
+        super.update(renderer, this._selectionTarget, deltaTime);
+    }
+
+    setSize(width: number, height: number) {
+        super.setSize(width, height);
+        this._selectionTarget.setSize(width, height);
+    }
+
+    initialize(renderer: WebGLRenderer, alpha: boolean, frameBufferType: number) {
+        super.initialize(renderer, alpha, frameBufferType);
+        if (frameBufferType !== undefined) {
+            this._selectionTarget.texture.type = frameBufferType as TextureDataType;
+            if (renderer !== null && renderer.outputColorSpace === SRGBColorSpace) {
+                this._selectionTarget.texture.colorSpace = SRGBColorSpace;
+            }
+        }
+    }
+
+    dispose() {
+        super.dispose();
+        this._selectionTarget.dispose();
+        this._selectionMaterial.dispose();
+    }
+
+    /** The tagged meshes over black, flat, with the frame's colour; untagged ones stay black. */
+    private _renderSelection(renderer: WebGLRenderer, inputBuffer: WebGLRenderTarget) {
+        const scene = this._scene;
+        const camera = this._camera as PerspectiveCamera | OrthographicCamera;
+        const uniforms = this._selectionMaterial.uniforms;
+        uniforms.uInput.value = inputBuffer.texture;
+        (uniforms.uResolution.value as Vector2).set(this._selectionTarget.width, this._selectionTarget.height);
+        uniforms.uPerspective.value = Boolean((camera as PerspectiveCamera).isPerspectiveCamera);
+        (uniforms.uCameraNearFar.value as Vector2).set(camera.near, camera.far);
+
+        const { background, overrideMaterial } = scene;
+        const layers = camera.layers.mask;
+        const autoClear = renderer.autoClear;
+        const shadowAutoUpdate = renderer.shadowMap.autoUpdate;
+        const clearAlpha = renderer.getClearAlpha();
+        renderer.getClearColor(this._clearColor);
+        scene.background = null;
+        scene.overrideMaterial = this._selectionMaterial;
+        camera.layers.set(this.layer);
+        renderer.autoClear = false;
+        renderer.shadowMap.autoUpdate = false;
+
+        renderer.setRenderTarget(this._selectionTarget);
+        renderer.setClearColor(0x000000, 0);
+        renderer.clear(true, false, false);
+        renderer.render(scene, camera);
+
+        scene.background = background;
+        scene.overrideMaterial = overrideMaterial;
+        camera.layers.mask = layers;
+        renderer.autoClear = autoClear;
+        renderer.shadowMap.autoUpdate = shadowAutoUpdate;
+        renderer.setClearColor(this._clearColor, clearAlpha);
+    }
+}
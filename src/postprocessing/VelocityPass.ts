@@ -0,0 +1,130 @@
+// VelocityPass.ts
+import { Pass, RenderPass, Resolution } from "postprocessing";
+import { Camera, Color, HalfFloatType, Matrix4, NearestFilter, Object3D, Scene, ShaderMaterial, Uniform, WebGLRenderTarget, type WebGLRenderer } from "three";
+// @ts-ignore
+import vertexShader from "/src/shaders/velocity.vert";
+// @ts-ignore
+import fragmentShader from "/src/shaders/velocity.frag";
+
+/**
+ * Renders per-pixel screen-space velocity (uv delta per frame) by comparing each
+ * object's current and previous model matrix under the current and previous camera.
+ * Covers camera motion and animated objects alike.
+ */
+export class VelocityPass extends Pass {
+    public readonly resolution: Resolution;
+
+    private _renderPass: RenderPass;
+    private _renderTarget: WebGLRenderTarget;
+    private _material: ShaderMaterial;
+    private _scene: Scene;
+    private _camera: Camera;
+
+    // previous frame state
+    private _prevModelMatrices = new WeakMap<Object3D, Matrix4>();
+    private _prevViewProjection = new Matrix4();
+    private _hasHistory = false;
+    // frames counted by beginFrame, and the last one this pass rendered in
+    private _frame = 0;
+    private _renderedFrame = -1;
+
+    constructor(scene: Scene, camera: Camera, { resolutionScale = 0.5 } = {}) {
+        super("VelocityPass");
+        this.needsSwap = false;
+
+        this._scene = scene;
+        this._camera = camera;
+
+        this._material = new ShaderMaterial({
+            name: "VelocityMaterial",
+            uniforms: {
+                uPrevModelMatrix: new Uniform(new Matrix4()),
+                uPrevViewProjectionMatrix: new Uniform(this._prevViewProjection),
+            },
+            vertexShader,
+            fragmentShader,
+        });
+        this._material.onBeforeRender = (_renderer, _scene, _camera, _geometry, object) => {
+            const prev = this._prevModelMatrices.get(object) ?? object.matrixWorld;
+            (this._material.uniforms.uPrevModelMatrix.value as Matrix4).copy(prev);
+            this._material.uniformsNeedUpdate = true;
+        };
+
+        this._renderPass = new RenderPass(scene, camera, this._material);
+        this._renderPass.ignoreBackground = true;
+        this._renderPass.skipShadowMapUpdate = true;
+        const clearPass = this._renderPass.getClearPass();
+        clearPass.overrideClearColor = new Color(0x000000);
+        clearPass.overrideClearAlpha = 0;
+
+        this._renderTarget = new WebGLRenderTarget(1, 1, {
+            type: HalfFloatType,
+            minFilter: NearestFilter,
+            magFilter: NearestFilter,
+        });
+        this._renderTarget.texture.name = "VelocityPass.Target";
+
+        this.resolution = new Resolution(this, Resolution.AUTO_SIZE, Resolution.AUTO_SIZE, resolutionScale);
+        this.resolution.addEventListener("change", () => this.setSize(this.resolution.baseWidth, this.resolution.baseHeight));
+    }
+
+    set mainCamera(camera: Camera) {
+        this._camera = camera;
+        this._renderPass.mainCamera = camera;
+        this.resetHistory();
+    }
+
+    /** Next frame has zero velocity (after a cut, or when the projection jumps). */
+    resetHistory() {
+        this._hasHistory = false;
+    }
+
+    /** Once per displayed frame; a frame without a render makes the history stale. */
+    beginFrame() {
+        this._frame++;
+    }
+
+    get texture() {
+        return this._renderTarget.texture;
+    }
+
+    render(renderer: WebGLRenderer) {
+        // a second chain this frame (A/B sides): the buffer already holds this frame's velocity,
+        // and rendering again would compare the pose with itself
+        if (this._renderedFrame === this._frame) return;
+        // not scheduled last frame (motion blur off, another view): the stored pose is old
+        if (this._renderedFrame !== this._frame - 1) this.resetHistory();
+        this._renderedFrame = this._frame;
+
+        // no history yet: previous == current, so the first frame has zero velocity
+        if (!this._hasHistory) this._storeHistory();
+
+        this._renderPass.render(renderer, this._renderTarget, null);
+        this._storeHistory();
+    }
+
+    private _storeHistory() {
+        this._camera.updateMatrixWorld();
+        this._prevViewProjection.multiplyMatrices(this._camera.projectionMatrix, this._camera.matrixWorldInverse);
+
+        this._scene.traverse((object) => {
+            if (!(object as any).isMesh) return;
+            const prev = this._prevModelMatrices.get(object);
+            if (prev) prev.copy(object.matrixWorld);
+            else this._prevModelMatrices.set(object, object.matrixWorld.clone());
+        });
+        this._hasHistory = true;
+    }
+
+    setSize(width: number, height: number) {
+        this.resolution.setBaseSize(width, height);
+        this._renderTarget.setSize(this.resolution.width, this.resolution.height);
+    }
+
+    dispose() {
+        super.dispose();
+        this._renderTarget.dispose();
+        this._material.dispose();
+        this._renderPass.dispose();
+    }
+}
@@ -0,0 +1,33 @@
+// Copies the scene colour under a bloom-tagged mesh, scaled by its intensity, where the mesh is the visible surface (TaggedBloomEffect)
+
+#include <packing>
+
+uniform sampler2D uInput;           // the frame bloom would otherwise read
+uniform sampler2D uDepth;           // scene depth of that frame
+uniform vec2 uResolution;
+uniform bool uPerspective;
+uniform vec2 uCameraNearFar;
+uniform float uIntensity;           // per mesh, userData.bloomIntensity
+
+float viewDistance(const in float depth) {
+    float viewZ = uPerspective
+        ? perspectiveDepthToViewZ(depth, uCameraNearFar.x, uCameraNearFar.y)
+        : orthographicDepthToViewZ(depth, uCameraNearFar.x, uCameraNearFar.y);
+    return -viewZ;
+}
+
+void main() {
+
+    vec2 uv = gl_FragCoord.xy / uResolution;
+
+#if DEPTH_PACKING == 3201
+    float sceneDepth = unpackRGBAToDepth(texture2D(uDepth, uv));
+#else
+    float sceneDepth = texture2D(uDepth, uv).r;
+#endif
+
+    // hidden behind an untagged surface: that one does not glow
+    if (viewDistance(gl_FragCoord.z) > viewDistance(sceneDepth) * 1.01) discard;
+
+    gl_FragColor = vec4(texture2D(uInput, uv).rgb * uIntensity, 1.0);
+}
@@ -0,0 +1,6 @@
+// Bloom-tagged meshes in clip space (TaggedBloomEffect selection material)
+
+void main() {
+
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
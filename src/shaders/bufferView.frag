@@ -0,0 +1,34 @@
+// Debug view of one intermediate buffer (BufferViewPass)
+
+#include <packing>
+
+uniform sampler2D tMap;
+uniform int uDecode;                // 0 colour, 1 normals, 2 depth (r), 3 depth (a), 4 single channel (r)
+uniform bool uPerspective;
+uniform vec2 uCameraNearFar;
+uniform float uDepthRange;          // world units past the near plane shown as white
+
+varying vec2 vUv;
+
+float linearDepth(const in float depth) {
+    float viewZ = uPerspective
+        ? perspectiveDepthToViewZ(depth, uCameraNearFar.x, uCameraNearFar.y)
+        : orthographicDepthToViewZ(depth, uCameraNearFar.x, uCameraNearFar.y);
+    return clamp((-viewZ - uCameraNearFar.x) / uDepthRange, 0.0, 1.0);
+}
+
+void main() {
+
+    vec4 texel = texture2D(tMap, vUv);
+    vec3 color;
+
+    if (uDecode == 2) color = vec3(linearDepth(texel.r));
+    else if (uDecode == 3) color = vec3(linearDepth(texel.a));
+    else if (uDecode == 4) color = vec3(texel.r);
+    else color = texel.rgb;             // colour, or normals already packed to [0, 1]
+
+    gl_FragColor = vec4(color, 1.0);
+
+    // only colour buffers are linear; data buffers are shown as stored
+    if (uDecode == 0) gl_FragColor = linearToOutputTexel(gl_FragColor);
+}
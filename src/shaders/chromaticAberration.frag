@@ -0,0 +1,25 @@
+// postprocessing "Effect" fragment (uses mainImage API)
+
+uniform float strength;             // channel offset (uv) at the frame corners
+uniform float falloff;              // >1 keeps the centre clean and pushes fringing to the edges
+uniform vec4 uViewRegion;           // uv offset (xy) and size (zw) of the full frame this render covers
+
+void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+
+    // measured on the full frame, so tiles of a capture fringe like the whole
+    vec2 frameUv = uViewRegion.xy + uv * uViewRegion.zw;
+    float frameAspect = aspect * uViewRegion.w / uViewRegion.z;
+
+    // 0 at the centre, 1 at the corners (aspect corrected)
+    vec2 fromCenter = frameUv - 0.5;
+    vec2 scaled = fromCenter * vec2(frameAspect, 1.0);
+    float d = clamp(length(scaled) / length(vec2(frameAspect, 1.0) * 0.5), 0.0, 1.0);
+
+    // frame uv -> uv of this render
+    vec2 shift = normalize(fromCenter + 1e-6) * strength * pow(d, falloff) / uViewRegion.zw;
+
+    float r = texture2D(inputBuffer, uv - shift).r;
+    float b = texture2D(inputBuffer, uv + shift).b;
+
+    outputColor = vec4(r, inputColor.g, b, inputColor.a);
+}
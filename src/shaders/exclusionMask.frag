@@ -0,0 +1,33 @@
+// Writes a fixed value into an effect buffer where a tagged mesh is the visible surface (ExclusionMask)
+
+#include <packing>
+
+uniform sampler2D uDepth;           // scene depth the effect ran on
+uniform vec2 uResolution;           // size of the effect buffer
+uniform bool uPerspective;
+uniform vec2 uCameraNearFar;
+uniform vec4 uValue;                // what the buffer holds for "effect off"
+
+float viewDistance(const in float depth) {
+    float viewZ = uPerspective
+        ? perspectiveDepthToViewZ(depth, uCameraNearFar.x, uCameraNearFar.y)
+        : orthographicDepthToViewZ(depth, uCameraNearFar.x, uCameraNearFar.y);
+    return -viewZ;
+}
+
+void main() {
+
+    vec2 uv = gl_FragCoord.xy / uResolution;
+
+#if DEPTH_PACKING == 3201
+    float sceneDepth = unpackRGBAToDepth(texture2D(uDepth, uv));
+#else
+    float sceneDepth = texture2D(uDepth, uv).r;
+#endif
+
+    // behind whatever the scene shows here: that surface keeps the effect
+    // (1% slack covers the buffer being a lower resolution than the depth)
+    if (viewDistance(gl_FragCoord.z) > viewDistance(sceneDepth) * 1.01) discard;
+
+    gl_FragColor = uValue;
+}
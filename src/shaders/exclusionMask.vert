@@ -0,0 +1,6 @@
+// Tagged meshes in clip space (ExclusionMask override material)
+
+void main() {
+
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
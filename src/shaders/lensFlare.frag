@@ -0,0 +1,43 @@
+// postprocessing "Effect" fragment (uses mainImage API)
+// Screen-space ghosts + halo, fed by the bloom bright-pass
+
+uniform sampler2D brightBuffer;     // luminance-thresholded colour
+uniform float intensity;
+uniform float ghostDispersal;       // spacing between ghosts
+uniform float haloWidth;            // halo ring radius
+uniform float haloIntensity;
+uniform float chromaticDistortion;  // per-channel offset along the flare axis
+
+vec3 sampleChromatic(const in vec2 uv, const in vec2 dir) {
+    return vec3(
+        texture2D(brightBuffer, uv + dir * chromaticDistortion).r,
+        texture2D(brightBuffer, uv).g,
+        texture2D(brightBuffer, uv - dir * chromaticDistortion).b
+    );
+}
+
+// fades samples that land near the frame border
+float centreWeight(const in vec2 uv, const in float power) {
+    return pow(1.0 - clamp(length(vec2(0.5) - uv) / 0.70710678, 0.0, 1.0), power);
+}
+
+void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+
+    vec2 flipped = vec2(1.0) - uv;
+    vec2 ghostVec = (vec2(0.5) - flipped) * ghostDispersal;
+    vec2 dir = normalize(ghostVec + 1e-6);
+
+    vec3 flare = vec3(0.0);
+
+    // ghosts
+    for (int i = 0; i < GHOSTS; ++i) {
+        vec2 offset = fract(flipped + ghostVec * float(i));
+        flare += sampleChromatic(offset, dir) * centreWeight(offset, 10.0);
+    }
+
+    // halo
+    vec2 haloUv = fract(flipped + dir * haloWidth);
+    flare += sampleChromatic(haloUv, dir) * centreWeight(haloUv, 5.0) * haloIntensity;
+
+    outputColor = vec4(flare * intensity, inputColor.a);
+}
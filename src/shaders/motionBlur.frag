@@ -0,0 +1,23 @@
+// postprocessing "Effect" fragment (uses mainImage API)
+
+uniform sampler2D velocityBuffer;   // uv delta per frame (VelocityPass)
+uniform float shutter;              // shutter angle / 360
+uniform float debugScale;           // velocity visualisation gain
+
+void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+
+    vec2 velocity = texture2D(velocityBuffer, uv).xy * shutter;
+
+#ifdef DEBUG_VELOCITY
+    outputColor = vec4(velocity * debugScale + 0.5, 0.5, 1.0);
+#else
+    // centred kernel: half of the samples trail, half lead
+    vec3 color = inputColor.rgb;
+    for (int i = 0; i < SAMPLES; ++i) {
+        float t = (float(i) + 0.5) / float(SAMPLES) - 0.5;
+        color += texture2D(inputBuffer, uv + velocity * t).rgb;
+    }
+
+    outputColor = vec4(color / float(SAMPLES + 1), inputColor.a);
+#endif
+}
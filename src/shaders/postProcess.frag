@@ -1,9 +1,14 @@
 // postprocessing "Effect" fragment (uses mainImage API)
+// GRAIN_MODE: 0 static texture, 1 animated texture offset, 2 procedural hash, 3 chroma (per-channel)
 
 uniform sampler2D tGrain;           // tileable monochrome grain (e.g. 512x512)
 uniform vec2 uResolution;          // viewport (width, height)
 uniform float uTime;
 
+// — Tiled capture: this render's part of the full frame, (0, 0, 1, 1) on screen
+uniform vec4 uViewRegion;          // uv offset (xy) and size (zw)
+uniform float uPixelScale;         // output pixels per screen pixel
+
 // — Grain
 uniform float uGrainScale;          // 4..10 (frequency)
 uniform float uNoiseStrength;       // 0..1
@@ -15,30 +20,76 @@ uniform float uVignetteStrength;    // 0..1  (how strong)
 uniform float uVignettePower;       // 1.2..3.0 (falloff)
 uniform vec3 uVignetteColor;       // subtle cool tint, e.g. vec3(0.04,0.05,0.08)
 
+#define GRAIN_FPS 24.0
+
 float luma(vec3 c) {
     return dot(c, vec3(0.2126, 0.7152, 0.0722));
 }
 
+// Dave Hoskins' hash without sine
+vec3 hash32(vec2 p) {
+    vec3 p3 = fract(vec3(p.xyx) * vec3(0.1031, 0.1030, 0.0973));
+    p3 += dot(p3, p3.yxz + 33.33);
+    return fract((p3.xxy + p3.yzz) * p3.zyx);
+}
+
+// grain in [-1, 1] per channel (monochrome modes return the same value thrice)
+vec3 grain(vec2 uv, vec2 resolution, vec2 aspect) {
+    // film-like: the pattern changes at a fixed rate, not every rendered frame
+    float frame = floor(uTime * GRAIN_FPS);
+    vec2 gUv = (uv * aspect) * uGrainScale;
+
+#if GRAIN_MODE == 0
+
+    return vec3(texture(tGrain, fract(gUv)).r * 2.0 - 1.0);
+
+#elif GRAIN_MODE == 1
+
+    vec2 offset = hash32(vec2(frame, 17.0)).xy;
+    return vec3(texture(tGrain, fract(gUv + offset)).r * 2.0 - 1.0);
+
+#elif GRAIN_MODE == 2
+
+    // grain size in pixels shrinks as the scale goes up (1px at the default 6, on screen)
+    vec2 cell = floor(uv * resolution / (max(6.0 / uGrainScale, 1.0) * uPixelScale));
+    return vec3(hash32(cell + frame * vec2(37.0, 17.0)).x * 2.0 - 1.0);
+
+#else
+
+    vec3 offsets = hash32(vec2(frame, 53.0));
+    return vec3(
+        texture(tGrain, fract(gUv + offsets.xy)).r,
+        texture(tGrain, fract(gUv + offsets.yz)).r,
+        texture(tGrain, fract(gUv + offsets.zx)).r
+    ) * 2.0 - 1.0;
+
+#endif
+}
+
 void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
 
     vec3 col = inputColor.rgb;
 
+    // vignette and grain are laid out over the full frame, whatever part of it this render covers
+    vec2 frameUv = uViewRegion.xy + uv * uViewRegion.zw;
+    vec2 frameResolution = uResolution / uViewRegion.zw;
+    vec2 aspect = vec2(frameResolution.x / frameResolution.y, 1.0);
+
     // ---------------------------
-    // Film grain (tileable + animated)
+    // Vignette halo: blends towards the tint past the radius (round on any aspect)
     // ---------------------------
-    vec2 aspect = vec2(uResolution.x / uResolution.y, 1.0);
-
-    // animated offset to avoid static pattern
-    vec2 gUv = fract((uv * aspect) * uGrainScale);
+    float dist = length((frameUv - uVignetteCenter) * aspect);
+    float falloff = clamp((dist - uVignetteRadius) / max(1.0 - uVignetteRadius, 1e-4), 0.0, 1.0);
+    float vignette = pow(falloff, uVignettePower) * uVignetteStrength;
 
-    // map to [-1, 1]
-    float g = texture(tGrain, gUv).r * 2.0 - 1.0;
+    col = mix(col, uVignetteColor, clamp(vignette, 0.0, 1.0));
 
-    // less grain on highlights
-    float lum = luma(col);
-    float grainAtten = mix(1.0, 0.35, smoothstep(0.0, 1.0, lum)) * uVignetteStrength;
+    // ---------------------------
+    // Film grain (less on highlights)
+    // ---------------------------
+    float grainAtten = mix(1.0, 0.35, smoothstep(0.0, 1.0, luma(col)));
 
-    col += g * uNoiseStrength * grainAtten;
+    col += grain(frameUv, frameResolution, aspect) * uNoiseStrength * grainAtten;
     col = clamp(col, 0.0, 1.0);
 
     outputColor = vec4(col, inputColor.a);
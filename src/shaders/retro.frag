@@ -0,0 +1,126 @@
+// postprocessing "Effect" fragment (uses mainImage API)
+
+uniform float pixelSize;          // virtual pixel size in screen pixels
+uniform float colorLevels;        // per-channel levels when no palette is set
+uniform float ditherStrength;     // dither spread in quantisation steps
+uniform sampler2D blueNoise;      // tiling blue noise (r)
+uniform float blueNoiseSize;
+uniform sampler2D palette;        // 16 x 1, sRGB
+uniform float paletteSize;
+uniform float scanlineIntensity;
+uniform float maskIntensity;
+uniform vec4 uViewRegion;         // uv offset (xy) and size (zw) of the full frame this render covers
+uniform float uPixelScale;        // output pixels per screen pixel
+
+#define PALETTE_WIDTH 16
+
+vec3 toSRGB(vec3 c) {
+    c = max(c, 0.0);
+    return mix(c * 12.92, 1.055 * pow(c, vec3(1.0 / 2.4)) - 0.055, step(0.0031308, c));
+}
+
+vec3 toLinear(vec3 c) {
+    return mix(c / 12.92, pow((c + 0.055) / 1.055, vec3(2.4)), step(0.04045, c));
+}
+
+// virtual pixel size in pixels of this render
+float pixelScale() {
+#ifdef PIXELATE
+    return max(pixelSize, 1.0) * uPixelScale;
+#else
+    return uPixelScale;
+#endif
+}
+
+// where this render starts in full frame pixels (bottom-left origin), so every tile of a capture shares one grid
+vec2 frameOrigin() {
+    return uViewRegion.xy / uViewRegion.zw * resolution;
+}
+
+void mainUv(inout vec2 uv) {
+#ifdef PIXELATE
+    float scale = pixelScale();
+    vec2 cell = floor((frameOrigin() + uv * resolution) / scale);
+    uv = ((cell + 0.5) * scale - frameOrigin()) / resolution;
+#endif
+}
+
+// 4x4 ordered threshold in [0, 1)
+float bayer4(vec2 p) {
+    vec2 q = mod(p, 4.0);
+    int i = int(q.x) + int(q.y) * 4;
+    float m[16] = float[16](
+        0.0,  8.0,  2.0, 10.0,
+        12.0, 4.0, 14.0,  6.0,
+        3.0, 11.0,  1.0,  9.0,
+        15.0, 7.0, 13.0,  5.0
+    );
+    return m[i] / 16.0;
+}
+
+float ditherThreshold(vec2 cell) {
+#if DITHER == 1
+    return bayer4(cell);
+#elif DITHER == 2
+    return texture2D(blueNoise, (cell + 0.5) / blueNoiseSize).r;
+#else
+    return 0.5;
+#endif
+}
+
+vec3 nearestPaletteColor(vec3 c) {
+    vec3 best = c;
+    float bestDistance = 1e6;
+    for (int i = 0; i < PALETTE_WIDTH; ++i) {
+        if (float(i) >= paletteSize) break;
+        vec3 p = texture2D(palette, vec2((float(i) + 0.5) / float(PALETTE_WIDTH), 0.5)).rgb;
+        // weighted rgb distance, close enough to perceptual for small palettes
+        vec3 d = (c - p) * vec3(0.299, 0.587, 0.114);
+        float dd = dot(d, d);
+        if (dd < bestDistance) {
+            bestDistance = dd;
+            best = p;
+        }
+    }
+    return best;
+}
+
+void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+
+    float scale = pixelScale();
+    // one dither cell per virtual pixel
+    vec2 cell = floor((frameOrigin() + uv * resolution) / scale);
+
+    vec3 color = inputColor.rgb;
+
+#if defined(PALETTE) || DITHER > 0
+    color = toSRGB(color);
+    float threshold = ditherThreshold(cell) - 0.5;
+
+#ifdef PALETTE
+    // spread relative to the average palette step
+    float spread = 1.0 / max(pow(paletteSize, 1.0 / 3.0) - 1.0, 1.0);
+    color = nearestPaletteColor(clamp(color + threshold * ditherStrength * spread, 0.0, 1.0));
+#else
+    float levels = max(colorLevels - 1.0, 1.0);
+    color = floor(clamp(color * levels + 0.5 + threshold * ditherStrength, 0.0, levels)) / levels;
+#endif
+
+    color = toLinear(color);
+#endif
+
+#ifdef CRT
+    vec2 framePx = frameOrigin() + gl_FragCoord.xy;
+
+    // dark gap between virtual pixel rows
+    float row = fract(framePx.y / scale);
+    color *= 1.0 - scanlineIntensity * (1.0 - sin(row * 3.14159265));
+
+    // aperture grille: r, g, b stripes every third screen column
+    int stripe = int(mod(floor(framePx.x / uPixelScale), 3.0));
+    vec3 mask = vec3(stripe == 0, stripe == 1, stripe == 2);
+    color *= mix(vec3(1.0), mask * 3.0, maskIntensity * 0.33);
+#endif
+
+    outputColor = vec4(color, inputColor.a);
+}
@@ -0,0 +1,12 @@
+// postprocessing "Effect" fragment (uses mainImage API)
+
+uniform sampler2D reflectionBuffer; // rgb = reflected colour, a = confidence
+uniform float intensity;
+
+void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+
+    vec4 reflection = texture2D(reflectionBuffer, uv);
+    float weight = clamp(reflection.a * intensity, 0.0, 1.0);
+
+    outputColor = vec4(mix(inputColor.rgb, reflection.rgb, weight), inputColor.a);
+}
@@ -0,0 +1,130 @@
+// Screen-space reflections: view-space ray march (rendered by SSREffect's internal pass)
+
+#include <packing>
+
+uniform sampler2D inputBuffer;      // scene colour from the EffectPass input
+uniform sampler2D depthBuffer;      // composer depth texture
+uniform sampler2D normalBuffer;     // view-space normals from NormalPass
+uniform sampler2D normalDepthBuffer; // packed normal (rgb) + depth (a) from DepthDownsamplingPass
+
+uniform mat4 uProjectionMatrix;
+uniform mat4 uInverseProjectionMatrix;
+uniform vec2 uCameraNearFar;
+
+uniform float uMaxDistance;         // world units a ray may travel
+uniform float uThickness;           // depth tolerance for a hit
+uniform float uRoughness;           // 0 = mirror, 1 = very blurry
+uniform float uBlur;                // max cone radius (uv units) at full roughness
+uniform float uEdgeFade;            // screen border fade (uv units)
+
+varying vec2 vUv;
+
+float readDepth(const in vec2 uv) {
+#ifdef NORMAL_DEPTH
+    return texture2D(normalDepthBuffer, uv).a;
+#elif DEPTH_PACKING == 3201
+    return unpackRGBAToDepth(texture2D(depthBuffer, uv));
+#else
+    return texture2D(depthBuffer, uv).r;
+#endif
+}
+
+vec3 readNormal(const in vec2 uv) {
+#ifdef NORMAL_DEPTH
+    return normalize(texture2D(normalDepthBuffer, uv).xyz * 2.0 - 1.0);
+#else
+    return normalize(texture2D(normalBuffer, uv).xyz * 2.0 - 1.0);
+#endif
+}
+
+float getViewZ(const in float depth) {
+#ifdef PERSPECTIVE_CAMERA
+    return perspectiveDepthToViewZ(depth, uCameraNearFar.x, uCameraNearFar.y);
+#else
+    return orthographicDepthToViewZ(depth, uCameraNearFar.x, uCameraNearFar.y);
+#endif
+}
+
+vec3 getViewPosition(const in vec2 uv, const in float depth) {
+    vec4 view = uInverseProjectionMatrix * vec4(vec3(uv, depth) * 2.0 - 1.0, 1.0);
+    return view.xyz / view.w;
+}
+
+vec2 projectToUv(const in vec3 p) {
+    vec4 clip = uProjectionMatrix * vec4(p, 1.0);
+    return clip.xy / clip.w * 0.5 + 0.5;
+}
+
+bool outsideScreen(const in vec2 uv) {
+    return uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0;
+}
+
+void main() {
+
+    float depth = readDepth(vUv);
+    if (depth >= 1.0) {
+        gl_FragColor = vec4(0.0);
+        return;
+    }
+
+    vec3 viewPos = getViewPosition(vUv, depth);
+    vec3 normal = readNormal(vUv);
+    vec3 viewDir = normalize(viewPos);
+    vec3 rayDir = normalize(reflect(viewDir, normal));
+
+    float stepSize = uMaxDistance / float(STEPS);
+    vec3 rayPos = viewPos + normal * 0.01;
+
+    vec3 hitPos = vec3(0.0);
+    bool hit = false;
+
+    for (int i = 0; i < STEPS; ++i) {
+        rayPos += rayDir * stepSize;
+
+        vec2 uv = projectToUv(rayPos);
+        if (outsideScreen(uv)) break;
+
+        float delta = getViewZ(readDepth(uv)) - rayPos.z;
+        if (delta > 0.0 && delta < uThickness) {
+
+            // binary refinement between the last two samples
+            vec3 lo = rayPos - rayDir * stepSize;
+            vec3 hi = rayPos;
+            for (int j = 0; j < REFINE_STEPS; ++j) {
+                vec3 mid = (lo + hi) * 0.5;
+                if (getViewZ(readDepth(projectToUv(mid))) - mid.z > 0.0) hi = mid;
+                else lo = mid;
+            }
+
+            hitPos = hi;
+            hit = true;
+            break;
+        }
+    }
+
+    if (!hit) {
+        gl_FragColor = vec4(0.0);
+        return;
+    }
+
+    vec2 hitUv = projectToUv(hitPos);
+    float travel = clamp(distance(hitPos, viewPos) / uMaxDistance, 0.0, 1.0);
+
+    // roughness-aware cone: the footprint widens with roughness and ray length
+    float cone = uRoughness * uBlur * travel;
+    vec3 color = vec3(0.0);
+    for (int k = 0; k < BLUR_TAPS; ++k) {
+        float a = float(k) * 2.39996323;
+        float r = sqrt((float(k) + 0.5) / float(BLUR_TAPS));
+        color += texture2D(inputBuffer, hitUv + vec2(cos(a), sin(a)) * r * cone).rgb;
+    }
+    color /= float(BLUR_TAPS);
+
+    // confidence: fade at screen borders, at the end of the ray and for camera-facing rays
+    vec2 edge = smoothstep(0.0, uEdgeFade, hitUv) * (1.0 - smoothstep(1.0 - uEdgeFade, 1.0, hitUv));
+    float fresnel = 0.04 + 0.96 * pow(1.0 - max(dot(-viewDir, normal), 0.0), 5.0);
+    float confidence = edge.x * edge.y * (1.0 - travel) * (1.0 - smoothstep(0.0, 0.5, rayDir.z));
+    confidence *= mix(1.0, fresnel, uRoughness) * (1.0 - uRoughness * 0.5);
+
+    gl_FragColor = vec4(color, confidence);
+}
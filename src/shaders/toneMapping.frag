@@ -0,0 +1,41 @@
+// postprocessing "Effect" fragment (uses mainImage API)
+
+#include <tonemapping_pars_fragment>
+
+uniform lowp sampler2D luminanceBuffer; // adapted average luminance (packed, 1x1)
+uniform float exposure;                 // 2^compensation
+uniform float middleGrey;               // target average luminance after exposure
+uniform vec2 luminanceRange;            // clamp of the adapted luminance (min, max)
+uniform float whitePoint;               // Uncharted2 linear white
+
+#define A 0.15
+#define B 0.50
+#define C 0.10
+#define D 0.20
+#define E 0.02
+#define F 0.30
+
+vec3 Uncharted2Helper(const in vec3 x) {
+    return ((x * (A * x + C * B) + D * E) / (x * (A * x + B) + D * F)) - E / F;
+}
+
+vec3 Uncharted2ToneMapping(vec3 color) {
+    return clamp(Uncharted2Helper(color) / Uncharted2Helper(vec3(whitePoint)), 0.0, 1.0);
+}
+
+float computeExposure() {
+#ifdef AUTO_EXPOSURE
+    float averageLuminance = unpackRGBAToDepth(texture2D(luminanceBuffer, vec2(0.5)));
+    averageLuminance = clamp(averageLuminance, luminanceRange.x, luminanceRange.y);
+    return exposure * middleGrey / max(averageLuminance, 1e-6);
+#else
+    return exposure;
+#endif
+}
+
+void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+
+    vec3 color = inputColor.rgb * computeExposure();
+
+    outputColor = vec4(toneMapping(color), inputColor.a);
+}
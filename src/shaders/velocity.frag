@@ -0,0 +1,12 @@
+// Screen-space velocity in uv units per frame (rg)
+
+varying vec4 vCurrentClip;
+varying vec4 vPreviousClip;
+
+void main() {
+
+    vec2 current = vCurrentClip.xy / vCurrentClip.w;
+    vec2 previous = vPreviousClip.xy / vPreviousClip.w;
+
+    gl_FragColor = vec4((current - previous) * 0.5, 0.0, 1.0);
+}
@@ -0,0 +1,15 @@
+// Per-object velocity: current vs previous clip position (VelocityPass override material)
+
+uniform mat4 uPrevModelMatrix;
+uniform mat4 uPrevViewProjectionMatrix;
+
+varying vec4 vCurrentClip;
+varying vec4 vPreviousClip;
+
+void main() {
+
+    vCurrentClip = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    vPreviousClip = uPrevViewProjectionMatrix * uPrevModelMatrix * vec4(position, 1.0);
+
+    gl_Position = vCurrentClip;
+}
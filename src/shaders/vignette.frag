@@ -0,0 +1,23 @@
+// postprocessing "Effect" fragment (uses mainImage API)
+// VignetteEffect's shader, laid out over the full frame when a render covers only part of it
+
+uniform float offset;
+uniform float darkness;
+uniform vec4 uViewRegion;           // uv offset (xy) and size (zw)
+
+void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+
+    const vec2 center = vec2(0.5);
+    vec2 frameUv = uViewRegion.xy + uv * uViewRegion.zw;
+    vec3 color = inputColor.rgb;
+
+#if VIGNETTE_TECHNIQUE == 0
+    float d = distance(frameUv, center);
+    color *= smoothstep(0.8, offset * 0.799, d * (darkness + offset));
+#else
+    vec2 coord = (frameUv - center) * vec2(offset);
+    color = mix(color, vec3(1.0 - darkness), dot(coord, coord));
+#endif
+
+    outputColor = vec4(color, inputColor.a);
+}